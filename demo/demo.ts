@@ -3,25 +3,95 @@ import Minimist = require('minimist');
 import {
     CommandRunner,
     CommandSpec,
+    CommandGroupSpec,
     NamedCommand,
-    CommandError,
-    CommandUsageError
+    CommandUtil,
+    OptionSchema
 } from '../src/index';
 
+const globalOptions = OptionSchema.define({
+    loud: {
+        type: 'boolean',
+        description: "Shout the output",
+        aliases: ['l']
+    }
+});
+
 class Demo extends CommandRunner {
 
     constructor() {
-        super();
+        super({
+            toolName: 'demo',
+            allowPrefixes: true,
+            structuredOutput: true,
+            verbosityOptions: true,
+            colorOption: true,
+            helpCommand: true,
+            version: '1.0.0',
+            globalOptions
+        });
         this.addCommands([
-            new SayHelloSpec()
+            new SayHelloSpec(),
+            new GreetingsSpec(),
+            new ForgetSpec()
         ]);
+        this.addCommands([
+            new CommandGroupSpec("SAY", "Says various things", [[
+                new SayHelloSpec(),
+                new SayGoodbyeSpec()
+            ]])
+        ]);
+    }
+
+    addDefaultOptions(options: Minimist.Opts) {
+        CommandUtil.addOptions(options, {
+            boolean: ['i'],
+            alias: { i: 'interactive' }
+        });
+    }
+
+    doDefaultCommand(args: Minimist.ParsedArgs, next: (err?: Error) => void) {
+        if (args.interactive)
+            return this.runShell({ prompt: 'demo> ' });
+        return super.doDefaultCommand(args, next);
     }
 }
 
-class SayHelloSpec extends CommandSpec {
+const HELLO = CommandSpec.define("HELLO", "Says hello back to you", {
+    options: {
+        times: {
+            type: 'number',
+            description: "Number of times to say hello",
+            default: 1,
+            aliases: ['t']
+        },
+        style: {
+            type: 'enum',
+            description: "Style of greeting",
+            values: ['casual', 'formal'],
+            default: 'casual'
+        }
+    },
+    globalOptions,
+    examples: [
+        {
+            command: "demo hello -t 3",
+            description: "Says hello three times"
+        },
+        {
+            command: "demo say hello --style formal",
+            description: "Says hello formally"
+        }
+    ],
+    seeAlso: ['say goodbye']
+});
+
+type HelloArgs = CommandSpec.ArgsOf<typeof HELLO>;
+
+class SayHelloSpec extends CommandSpec<HelloArgs> {
 
     constructor() {
-        super("HELLO", "Says hello back to you");
+        super(HELLO);
     }
 
     createCommand() {
@@ -29,24 +99,100 @@ class SayHelloSpec extends CommandSpec {
     }
 }
 
-class SayHelloCmd extends NamedCommand {
+class SayHelloCmd extends NamedCommand<HelloArgs> {
 
     doCommand(
-        args: Minimist.ParsedArgs,
+        args: HelloArgs,
         next: (err?: Error) => void
     ) {
-        this.printLn("Well hello there!");
+        const greeting = (args.style === 'formal' ? "Good day to you." :
+                "Well hello there!");
+        for (let i = 0; i < args.times; ++i)
+            this.printLn(args.loud ? greeting.toUpperCase() : greeting);
         next();
     }
 }
 
-new Demo().run(process.argv.slice(2), err => {
-    if (err) {
-        if (err instanceof CommandUsageError)
-            process.stderr.write(err.message + " (-h for help)\n");
-        else if (err instanceof CommandError)
-            process.stderr.write(err.message + "\n");
+class GreetingsSpec extends CommandSpec {
+
+    constructor() {
+        super("GREETINGS", "Lists the greetings of each style");
+    }
+
+    createCommand() {
+        return new GreetingsCmd();
+    }
+}
+
+class GreetingsCmd extends NamedCommand {
+
+    async doCommand(args: Minimist.ParsedArgs) {
+        this.printTable([
+            { style: 'casual', greeting: "Well hello there!" },
+            { style: 'formal', greeting: "Good day to you." }
+        ]);
+    }
+}
+
+const GOODBYE = CommandSpec.define("GOODBYE <name> [others...]",
+        "Says goodbye to one or more people", {
+            aliases: ['bye'],
+            positionals: { name: 'required', others: 'variadic' }
+        });
+
+type GoodbyeArgs = CommandSpec.ArgsOf<typeof GOODBYE>;
+
+class SayGoodbyeSpec extends CommandSpec<GoodbyeArgs> {
+
+    constructor() {
+        super(GOODBYE);
+    }
+
+    createCommand() {
+        return new SayGoodbyeCmd();
+    }
+}
+
+class SayGoodbyeCmd extends NamedCommand<GoodbyeArgs> {
+
+    getHelp(rightMargin: number) {
+        return super.getHelp(rightMargin) +
+                "\nSays farewell to each of the named people in turn.\n";
+    }
+
+    async doCommand(args: GoodbyeArgs) {
+        const names = [args.name].concat(args.others);
+        this.printLn("Farewell, %s!", names.join(" and "));
+    }
+}
+
+const FORGET = CommandSpec.define("FORGET <name>",
+        "Forgets everything about a person", {
+            destructive: "Forget this person forever?",
+            positionals: { name: 'required' }
+        });
+
+type ForgetArgs = CommandSpec.ArgsOf<typeof FORGET>;
+
+class ForgetSpec extends CommandSpec<ForgetArgs> {
+
+    constructor() {
+        super(FORGET);
+    }
+
+    createCommand() {
+        return new ForgetCmd();
+    }
+}
+
+class ForgetCmd extends NamedCommand<ForgetArgs> {
+
+    async doCommand(args: ForgetArgs) {
+        if (this.isDryRun())
+            this.printLn("Would forget %s.", args.name);
         else
-            throw err;
+            this.printLn("Forgot %s.", args.name);
     }
-});
+}
+
+new Demo().main();
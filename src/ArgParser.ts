@@ -0,0 +1,252 @@
+
+import Minimist = require("minimist");
+import { CommandUtil } from './CommandUtil';
+import * as Errors from './errors';
+
+//// CONSTANTS ////////////////////////////////////////////////////////////////
+
+const NUMBER_REGEX = /^[-+]?(\d+(\.\d*)?|\.\d+)(e[-+]?\d+)?$/i;
+
+/**
+ * ArgParser is a strict alternative to minimist that accepts the same configuration options object and produces the same form of output, but only accepts the options that the configuration declares, via `boolean`, `string`, `alias`, or `default`. Given an undeclared option, it throws a CommandUsageError naming the option and suggesting the declared options that most closely resemble it.
+ *
+ * The parser supports `--name value`, `--name=value`, `-n value`, `-nvalue`, clustered single-letter flags such as `-abc`, negating a boolean option via `--no-name`, and ending the options with `--`, after which all arguments are non-option arguments. An option declared via `string` requires a value, and only options not declared via `string` may be negated. An option that is repeated collects its values into an array, except that a repeated boolean option remains a boolean. Arguments that look like negative numbers are non-option arguments.
+ */
+
+export class ArgParser
+{
+    protected booleans: { [name: string]: boolean }; // boolean names
+    protected strings: { [name: string]: boolean }; // string names
+    protected aliases: { [name: string]: string[] }; // all names by name
+    protected defaults: { [name: string]: any }; // default values by name
+    protected stopEarly: boolean; // whether options end at first non-option
+    protected splitDashes: boolean; // whether to put args after -- in args['--']
+
+    /**
+     * @param options A configuration object of options for minimist, declaring the options that the parser accepts. The `unknown` property is ignored.
+     */
+
+    constructor(options: Minimist.Opts) {
+        // the maps lack prototypes, so that names such as 'constructor' are
+        // not taken for declared options
+        this.booleans = Object.create(null);
+        this.strings = Object.create(null);
+        this.aliases = Object.create(null);
+        toArray(options.boolean).forEach(name => {
+            this.booleans[name] = true;
+        });
+        toArray(options.string).forEach(name => {
+            this.strings[name] = true;
+        });
+        Object.keys(options.alias || {}).forEach(name => {
+            // merge groups of aliases that share a name
+            const names = [name].concat(toArray(options.alias![name]));
+            names.slice().forEach(aliasName => {
+                (this.aliases[aliasName] || []).forEach(otherName => {
+                    if (names.indexOf(otherName) < 0)
+                        names.push(otherName);
+                });
+            });
+            names.forEach(aliasName => {
+                this.aliases[aliasName] = names.filter(n => n !== aliasName);
+            });
+        });
+        Object.keys(this.aliases).forEach(name => {
+            this.aliases[name].forEach(aliasName => {
+                if (this.booleans[name])
+                    this.booleans[aliasName] = true;
+                if (this.strings[name])
+                    this.strings[aliasName] = true;
+            });
+        });
+        this.defaults = Object.assign(Object.create(null), options.default);
+        this.stopEarly = options.stopEarly || false;
+        this.splitDashes = options['--'] || false;
+    }
+
+    /**
+     * Returns the names of all of the options that the parser accepts, including aliases.
+     */
+
+    getNames(): string[] {
+        const names: string[] = [];
+        const addName = (name: string) => {
+            if (names.indexOf(name) < 0)
+                names.push(name);
+        };
+        Object.keys(this.booleans).forEach(addName);
+        Object.keys(this.strings).forEach(addName);
+        Object.keys(this.aliases).forEach(addName);
+        Object.keys(this.defaults).forEach(addName);
+        return names;
+    }
+
+    /**
+     * Indicates whether the parser accepts the named option.
+     */
+
+    isDeclared(name: string): boolean {
+        return this.booleans[name] || this.strings[name] ||
+                this.aliases[name] !== undefined ||
+                this.defaults[name] !== undefined;
+    }
+
+    /**
+     * Indicates whether the named option is a declared boolean option.
+     */
+
+    isBoolean(name: string): boolean {
+        return !!this.booleans[name];
+    }
+
+    /**
+     * Parses command line arguments, returning an object of the form that minimist returns. Each option provided, along with each of its aliases, is a property of the object. Options having defaults that the command line does not provide take their default values, and absent boolean options are otherwise false. `args._` contains the non-option arguments as strings.
+     *
+     * @param argv The command line arguments to parse.
+     * @returns the parsed arguments.
+     * @throws CommandUsageError when an option is not declared, an option lacks a required value, or a non-boolean option is negated.
+     */
+
+    parse(argv: string[]): Minimist.ParsedArgs {
+        const args: Minimist.ParsedArgs = { _: [] };
+        const provided: { [name: string]: boolean } = Object.create(null);
+        const setValue = (name: string, value: any) => {
+            [name].concat(this.aliases[name] || []).forEach(anyName => {
+                if (!provided[anyName] || this.booleans[anyName])
+                    args[anyName] = value;
+                else
+                    args[anyName] = [].concat(args[anyName], value);
+                provided[anyName] = true;
+            });
+        };
+
+        let i = 0;
+        for (; i < argv.length; ++i) {
+            const arg = argv[i];
+            const next = argv[i + 1];
+            let matches: RegExpMatchArray|null;
+            if (arg === '--') {
+                ++i;
+                break;
+            }
+            else if (matches = arg.match(/^--([^=]+)=([\s\S]*)$/)) {
+                const name = this.checkName(matches[1], '--');
+                setValue(name, this.toValue(name, matches[2]));
+            }
+            else if (matches = arg.match(/^--no-(.+)$/)) {
+                if (this.isDeclared(arg.substr(2)))
+                    setValue(arg.substr(2), true);
+                else {
+                    const name = this.checkName(matches[1], '--');
+                    if (this.strings[name]) {
+                        throw new Errors.CommandUsageError({
+                            id: 'error.option-not-negatable',
+                            params: { name }
+                        });
+                    }
+                    setValue(name, false);
+                }
+            }
+            else if (matches = arg.match(/^--(.+)$/)) {
+                const name = this.checkName(matches[1], '--');
+                if (this.booleans[name])
+                    setValue(name, true);
+                else if (this.takesValue(next))
+                    setValue(name, this.toValue(name, argv[++i]));
+                else if (this.strings[name])
+                    throw this.getMissingValueError('--'+ name);
+                else
+                    setValue(name, true);
+            }
+            else if (/^-[^-]/.test(arg) && !NUMBER_REGEX.test(arg)) {
+                const letters = arg.substr(1);
+                for (let j = 0; j < letters.length; ++j) {
+                    const name = this.checkName(letters[j], '-');
+                    const rest = letters.substr(j + 1);
+                    if (this.booleans[name])
+                        setValue(name, true);
+                    else if (rest !== '') {
+                        setValue(name, this.toValue(name, rest[0] === '=' ?
+                                rest.substr(1) : rest));
+                        break;
+                    }
+                    else if (this.takesValue(next))
+                        setValue(name, this.toValue(name, argv[++i]));
+                    else if (this.strings[name])
+                        throw this.getMissingValueError('-'+ name);
+                    else
+                        setValue(name, true);
+                }
+            }
+            else {
+                args._.push(arg);
+                if (this.stopEarly) {
+                    ++i;
+                    break;
+                }
+            }
+        }
+        const rest = argv.slice(i);
+        if (this.splitDashes)
+            args['--'] = rest;
+        else
+            args._ = args._.concat(rest);
+
+        Object.keys(this.defaults).forEach(name => {
+            if (!provided[name])
+                setValue(name, this.defaults[name]);
+        });
+        Object.keys(this.booleans).forEach(name => {
+            if (args[name] === undefined)
+                args[name] = false;
+        });
+        return args;
+    }
+
+    //// PROTECTED METHODS ////////////////////////////////////////////////////
+
+    protected checkName(name: string, dashes: string): string {
+        if (this.isDeclared(name))
+            return name;
+        // any letter would resemble any other, so only suggest long names
+        const suggestions = (name.length === 1 ? [] :
+                CommandUtil.getSuggestions(name, this.getNames()
+                    .filter(name => name.length > 1)).map(name => '--'+ name));
+        throw new Errors.CommandUsageError(suggestions.length === 0 ? {
+            id: 'error.unknown-option',
+            params: { flag: dashes + name }
+        } : {
+            id: 'error.unknown-option-suggest',
+            params: {
+                flag: dashes + name,
+                suggestions: suggestions.map(flag => "'"+ flag +"'")
+                        .join(' or ')
+            }
+        });
+    }
+
+    protected takesValue(next: string|undefined): boolean {
+        return (next !== undefined && next !== '--' &&
+                (next[0] !== '-' || next === '-' || NUMBER_REGEX.test(next)));
+    }
+
+    protected toValue(name: string, text: string): any {
+        if (this.strings[name] || this.booleans[name] ||
+                !NUMBER_REGEX.test(text))
+            return text;
+        return Number(text); // as minimist does for options of no declared type
+    }
+
+    protected getMissingValueError(flag: string): Errors.CommandUsageError {
+        return new Errors.CommandUsageError(
+                { id: 'error.option-requires-value', params: { flag } });
+    }
+}
+
+//// SUPPORT FUNCTIONS ////////////////////////////////////////////////////////
+
+function toArray(value: boolean|string|string[]|undefined): string[] {
+    if (typeof value === 'string')
+        return [value];
+    return (Array.isArray(value) ? value : []);
+}
@@ -0,0 +1,92 @@
+
+import * as Errors from './errors';
+
+//// TYPES ////////////////////////////////////////////////////////////////////
+
+export namespace Cancellation {
+    // called when the command is cancelled, given the signal, if any
+    export type Listener = (signal: string|null) => void;
+}
+
+/**
+ * Cancellation signals that the command of a run has been cancelled, as when the user presses Ctrl-C while the command is running. A command checks whether it has been cancelled via `isCancelled()` or `throwIfCancelled()`, or it registers listeners via `onCancel()` to stop work in progress, such as by closing connections or killing child processes. A Cancellation is cancelled at most once.
+ */
+
+export class Cancellation
+{
+    protected cancelled = false; // whether cancelled
+    protected signal: string|null = null; // signal that cancelled, if any
+    protected listeners: Cancellation.Listener[] = []; // awaiting cancellation
+
+    /**
+     * Indicates whether the command has been cancelled.
+     */
+
+    isCancelled(): boolean {
+        return this.cancelled;
+    }
+
+    /**
+     * Returns the name of the signal that cancelled the command, such as 'SIGINT', or null if the command has not been cancelled or was not cancelled by a signal.
+     */
+
+    getSignal(): string|null {
+        return this.signal;
+    }
+
+    /**
+     * Throws a CommandCancelledError if the command has been cancelled. Call this method between the steps of a long-running command to stop at the next step.
+     *
+     * @throws CommandCancelledError when the command has been cancelled.
+     */
+
+    throwIfCancelled(): void {
+        if (this.cancelled)
+            throw new Errors.CommandCancelledError(this.signal);
+    }
+
+    /**
+     * Registers a function to call when the command is cancelled. The function is called immediately if the command has already been cancelled.
+     *
+     * @param listener Function to call with the name of the cancelling signal, if any.
+     * @returns a function that unregisters the listener.
+     */
+
+    onCancel(listener: Cancellation.Listener): () => void {
+        if (this.cancelled)
+            listener(this.signal);
+        else
+            this.listeners.push(listener);
+        return () => {
+            const index = this.listeners.indexOf(listener);
+            if (index >= 0)
+                this.listeners.splice(index, 1);
+        };
+    }
+
+    /**
+     * Returns a promise that resolves to the name of the cancelling signal, if any, once the command is cancelled.
+     */
+
+    whenCancelled(): Promise<string|null> {
+        return new Promise<string|null>(resolve => {
+            this.onCancel(resolve);
+        });
+    }
+
+    /**
+     * Cancels the command, calling the registered listeners in the order registered. Subsequent calls do nothing.
+     *
+     * @param signal Name of the signal that cancelled the command, if any.
+     */
+
+    cancel(signal?: string): void {
+        if (this.cancelled)
+            return;
+        this.cancelled = true;
+        this.signal = signal || null;
+        const listeners = this.listeners;
+        this.listeners = [];
+        listeners.forEach(listener => listener(this.signal));
+    }
+}
@@ -0,0 +1,29 @@
+
+import Stream = require("stream");
+
+/**
+ * CaptureStream is a writable stream that collects the text written to it, for running commands with their output captured.
+ */
+
+export class CaptureStream extends Stream.Writable
+{
+    protected chunks: Buffer[] = []; // chunks written to the stream
+
+    _write(
+        chunk: any,
+        encoding: BufferEncoding, // of string chunks, else 'buffer'
+        callback: (err?: Error) => void
+    ) {
+        this.chunks.push(Buffer.isBuffer(chunk) ? chunk :
+                Buffer.from(String(chunk), encoding));
+        callback();
+    }
+
+    /**
+     * Returns all of the text written to the stream, decoded as UTF-8.
+     */
+
+    getText(): string {
+        return Buffer.concat(this.chunks).toString('utf8');
+    }
+}
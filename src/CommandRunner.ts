@@ -1,19 +1,135 @@
 
+import ChildProcess = require("child_process");
+import FS = require("fs");
+import OS = require("os");
+import Path = require("path");
+import Stream = require("stream");
 import Minimist = require("minimist");
 import OptionHelp = require("option-help");
+import { ArgParser } from './ArgParser';
+import { Cancellation } from './Cancellation';
+import { CaptureStream } from './CaptureStream';
 import { CommandSpec } from './CommandSpec';
+import { CommandShell } from './CommandShell';
+import { Completion } from './Completion';
+import { CommandUtil } from './CommandUtil';
+import { DocGenerator } from './DocGenerator';
+import { Logger } from './Logger';
+import { MessageCatalog } from './MessageCatalog';
+import { OptionSchema } from './OptionSchema';
 import { NamedCommand } from './NamedCommand';
+import { OutputFormatter } from './OutputFormatter';
+import { PluginLoader } from './PluginLoader';
+import { Spinner, ProgressBar } from './Progress';
+import { Style } from './Style';
+import { Prompter } from './Prompter';
 import * as Errors from './errors';
 
 //// CONSTANTS ////////////////////////////////////////////////////////////////
 
-const DEFAULT_WRAP_WIDTH = 80; // default with at char which to wrap help output
+const DEFAULT_WRAP_WIDTH = 80; // default width at which to wrap help output
+const DEFAULT_PAGER = 'less'; // pager for long help when PAGER is not set
+const DEFAULT_LESS = 'FRX'; // options for less, passing through ANSI styles
+const DEFAULT_EXIT_CODES: CommandRunner.ExitCodes = {
+    command: 1, // exit code for a CommandError
+    usage: 2, // exit code for a CommandUsageError
+    unexpected: 70 // exit code for any other error (EX_SOFTWARE)
+};
+const DEFAULT_DEBUG_FLAG = '--debug'; // default option that enables debugging
+const DEFAULT_DEBUG_ENV = 'MUNCHIES_DEBUG'; // default env var for debugging
+const CANCEL_SIGNALS: NodeJS.Signals[] = ['SIGINT', 'SIGTERM']; // cancel runs
+const SIGNAL_EXIT_CODES: { [signal: string]: number } = {
+    SIGINT: 130, // exit code for cancelling via SIGINT, per shell convention
+    SIGTERM: 143 // exit code for cancelling via SIGTERM, per shell convention
+};
 
 //// TYPES ////////////////////////////////////////////////////////////////////
 
 export namespace CommandRunner {
     export interface Options {
+        toolName?: string; // name of the tool, for env vars and config files
         helpWrapWidth?: number; // width in characters at which to wrap help output
+        allowPrefixes?: boolean; // whether to accept unique command prefixes
+        stdout?: NodeJS.WritableStream; // stream for normal output
+        stderr?: NodeJS.WritableStream; // stream for diagnostic output
+        stdin?: NodeJS.ReadableStream; // stream for user input
+        exitCodes?: Partial<ExitCodes>; // exit codes to use for errors
+        debugFlag?: string|null; // main() option enabling debug output
+        debugEnv?: string|null; // environment variable enabling debug output
+        globalOptions?: OptionSchema.Definitions; // options of every command
+        lenientOptions?: boolean; // whether to accept undeclared options
+        structuredOutput?: boolean; // whether to offer --format and --json
+        promptOptions?: boolean; // whether to offer --yes and --no-input
+        verbosityOptions?: boolean; // whether to offer -v, -vv, and --quiet
+        colorOption?: boolean; // whether to offer --color
+        helpPager?: boolean; // whether to page help longer than the screen
+        helpCommand?: boolean; // whether to offer the help command
+        version?: string; // version of the tool, offering --version
+        handleSignals?: boolean; // whether SIGINT and SIGTERM cancel commands
+        locale?: string; // locale of messages, defaulting to the environment's
+        messages?: MessageCatalog.Catalogs; // messages keyed by locale
+    }
+
+    export interface ExitCodes {
+        command: number; // exit code for a CommandError
+        usage: number; // exit code for a CommandUsageError
+        unexpected: number; // exit code for any other error
+    }
+
+    export interface Streams {
+        stdout: NodeJS.WritableStream; // stream for normal output
+        stderr: NodeJS.WritableStream; // stream for diagnostic output
+        stdin: NodeJS.ReadableStream; // stream for user input
+    }
+
+    export interface Hooks {
+        // called after finding the command, before parsing its arguments
+        beforeParse?: (context: HookContext) => void|Promise<void>;
+        // called after parsing and validating the arguments
+        afterParse?: (context: HookContext) => void|Promise<void>;
+        // called immediately before performing the command
+        beforeCommand?: (context: HookContext) => void|Promise<void>;
+        // called after the command completes without error
+        afterCommand?: (context: HookContext) => void|Promise<void>;
+        // called when an error ends the run, after any phase
+        onError?: (context: HookContext, err: Error) => void|Promise<void>;
+    }
+
+    // cleans up after a command that is cancelled or fails
+    export type Cleanup = () => void|Promise<void>;
+
+    export interface HookContext {
+        argv: string[]; // arguments to parse, excluding the command name
+        spec: CommandSpec|null; // spec of the named command, null for default
+        command: NamedCommand|null; // named command instance, null for default
+        args: Minimist.ParsedArgs|null; // parsed arguments, once parsed
+    }
+
+    export interface Outcome {
+        spec: CommandSpec|null; // spec of the named command, null for default
+        command: NamedCommand|null; // named command instance, null for default
+        args: Minimist.ParsedArgs|null; // parsed arguments, if parsing completed
+        helpShown: boolean; // whether the run only displayed help or version
+        result?: any; // value that the command returned, if any
+        error?: Error; // error that ended the run, if any
+    }
+
+    // where invoke() sends the output of a command
+    export type Output = 'inherit'|'capture'|'discard';
+
+    export interface InvokeOptions {
+        output?: Output; // where to send the command's stdout and stderr
+    }
+
+    export interface InvokeArgs {
+        [name: string]: any; // value of each option or positional argument
+    }
+
+    export interface Invocation<R> {
+        result: R|undefined; // value that the command returned, if any
+        stdout: string; // text written to stdout, if captured
+        stderr: string; // text written to stderr, if captured
+        outcome: Outcome; // outcome of the run of the command
     }
 }
 
@@ -26,229 +142,1788 @@ export class CommandRunner
     //// CONFIGURATION ////////////////////////////////////////////////////////
     
     protected commandSpecs: CommandSpec[]; // array of info about the commands available, at most one of which runs
-    protected helpWrapWidth: number; // width in characters at which to wrap help output
+    protected helpWrapWidth: number|null; // width at which to wrap help, if fixed
+    protected allowPrefixes: boolean; // whether to accept unique command prefixes
+    protected streams: CommandRunner.Streams; // streams for all I/O
+    protected exitCodes: CommandRunner.ExitCodes; // exit codes for errors
+    protected debugFlag: string|null; // main() option enabling debug output
+    protected debugEnv: string|null; // env var enabling debug output
+    protected globalSchema: OptionSchema; // options available to every command
+    protected globals: { [name: string]: any }; // global option values of run
+    protected toolName: string|null; // name for env vars and config files
+    protected origins: OptionSchema.Origins; // sources of option values
+    protected debugging = false; // whether main() is in debug mode
+    protected hooks: CommandRunner.Hooks[]; // hooks in order registered
+    protected lenientOptions: boolean; // whether to accept undeclared options
+    protected structuredOutput: boolean; // whether to offer --format
+    protected outputFormat: OutputFormatter.Format; // format of current run
+    protected outputFormatter: OutputFormatter|null; // formatter of the run
+    protected promptOptions: boolean; // whether to offer --yes, --no-input
+    protected verbosityOptions: boolean; // whether to offer -v and --quiet
+    protected logLevel: Logger.Level; // least severe level logged in run
+    protected dryRun = false; // whether the current run is a dry run
+    protected colorOption: boolean; // whether to offer --color
+    protected helpPager: boolean; // whether to page long help
+    protected helpCommand: boolean; // whether to offer the help command
+    protected version: string|null; // version of the tool, if offered
+    protected toolSchema: OptionSchema; // options of the tool without command
+    protected handleSignals: boolean; // whether signals cancel commands
+    protected cancellation: Cancellation; // cancellation of the current run
+    protected cleanups: CommandRunner.Cleanup[]; // cleanups of current run
+    protected running = false; // whether a run is in progress
+    protected catalog: MessageCatalog; // messages in the user's locale
 
     //// CONSTRUCTION /////////////////////////////////////////////////////////
     
     /**
      * CommandRunner is the base class for tools that implement CLIs supporting multiple commands. The `options` configuration parameter accepts the following properties:
      *
-     * - `helpWrapWidth`: Width in characters at which to wrap help output. Defaults to 80.
+     * - `toolName`: Name of the tool, such as `mytool`, which enables reading option values from environment variables and configuration files. The environment variable of an option not declaring `env` is the option name prefixed with the tool name, as in `MYTOOL_REGION` for option `region`. The configuration files are the project file `.mytool.json`, found in the current directory or the nearest ancestor directory having one, and the user file `.mytool.json` in the home directory. See `getConfigSources()` for their contents. An option's value comes from the first of the command line, the environment, the project file, the user file, and the option's default that provides it, except that `--yes` and `--dry-run` only come from the command line. Defaults to null, only reading environment variables that options declare.
+     * - `helpWrapWidth`: Width in characters at which to wrap help output. Defaults to the width of the terminal when stdout is a terminal, and otherwise to 80.
+     * - `colorOption`: Whether to add the global option `--color <auto|always|never>`, which determines whether help is styled with ANSI colors. In 'auto' mode, the default, help is styled when stdout is a terminal and the `NO_COLOR` environment variable is not set. See Style. Without this option, help is always styled in 'auto' mode.
+     * - `helpPager`: Whether to show help that is longer than the terminal is tall through the pager that the `PAGER` environment variable names, defaulting to `less`. Only applies when both stdout and stdin are the process's terminal. Defaults to true.
+     * - `allowPrefixes`: Whether the user may abbreviate a command name or alias to any prefix that uniquely identifies the command. Defaults to false.
+     * - `stdout`, `stderr`, `stdin`: Streams to use in place of the process's standard output, error, and input streams for all output and prompts of the tool and its commands. Each defaults to the corresponding stream of the process.
+     * - `exitCodes`: Exit codes that `main()` uses for errors, keyed by `command` for CommandError, `usage` for CommandUsageError, and `unexpected` for other errors. Defaults to 1, 2, and 70, respectively. A CommandError having its own `exitCode` overrides these codes.
+     * - `debugFlag`: Option that `main()` accepts anywhere on the command line to show the stacks of errors, or null for no such option. Defaults to `--debug`.
+     * - `debugEnv`: Environment variable that shows the stacks of errors when set to a non-empty value, or null for no such variable. Defaults to `MUNCHIES_DEBUG`.
+     * - `globalOptions`: Command line options that apply to every command, keyed by option name, as declared for OptionSchema. The user may provide global options before or after the command name. The general help lists them, and `getGlobals()` provides their values.
+     * - `lenientOptions`: Whether to parse the command line with minimist, which accepts any option, even one that no command declares. Defaults to false, parsing the command line with ArgParser, which rejects undeclared options.
+     * - `promptOptions`: Whether to add the global options `--yes`, which answers yes to all confirmations, and `--no-input`, which prevents all prompting. With either option, prompts that `getPrompter()` provides resolve to their defaults or fail with a CommandError rather than waiting for the user. Defaults to false.
+     * - `helpCommand`: Whether to provide the built-in command `help [command...]`, which shows the help for the named command or command group, or the general help when no command is named. A command that the tool adds having the name `help` takes precedence. Defaults to false.
+     * - `version`: Version of the tool, such as "1.2.0", which the option `--version` shows when no command is named. Defaults to null, providing no `--version` option.
+     * - `handleSignals`: Whether SIGINT and SIGTERM cancel the command that is running rather than ending the process. The first such signal cancels the command's Cancellation (see `getCancellation()`) and waits for the command to stop, so commands offered this option should check for cancellation while they work. Once the command stops, the run performs the cleanups registered via `addCleanup()` and ends with a CommandCancelledError. A second signal exits the process immediately. Only applies while the command is performing or cleaning up. Defaults to false, leaving the signals to end the process as usual.
+     * - `verbosityOptions`: Whether to add the global options `-v, --verbose` and `-q, --quiet`, which control the level of the messages that `getLogger()` writes to stderr. By default, the logger writes warnings and errors. `-v` adds informational messages, `-vv` further adds debugging messages, and `--quiet` limits the messages to errors and suppresses progress reporting. Defaults to false, always logging warnings and errors.
+     * - `locale`: Locale in which to report the framework's messages, such as 'de_DE', and from which to take the commands' summaries and descriptions that the catalog provides (see MessageCatalog). Defaults to the locale of the environment variables `LC_ALL`, `LC_MESSAGES`, and `LANG`, or to English when they are not set.
+     * - `messages`: Messages of each locale, keyed by locale, such as 'de' or 'de_AT', which override the English messages of the framework and may provide the summaries and descriptions of commands. See MessageCatalog for the message ids. Defaults to providing only the framework's English messages.
+     * - `structuredOutput`: Whether to add the global options `--format text|json|ndjson|csv` and `--json`, the latter being short for `--format json`. The format determines how NamedCommand's `printRecord()`, `printTable()`, and `printKeyValues()` render output, and in the JSON and NDJSON formats, `formatError()` renders errors as JSON objects. Defaults to false, always rendering in the text format.
      *
      * @param options The configuration options
      */
     
     constructor(options?: CommandRunner.Options) {
         options = options || {};
-        this.helpWrapWidth = options.helpWrapWidth || DEFAULT_WRAP_WIDTH;
+        this.catalog = new MessageCatalog(options.locale, options.messages);
+        this.helpWrapWidth = options.helpWrapWidth || null;
+        this.helpPager = (options.helpPager === undefined ? true :
+                options.helpPager);
+        this.allowPrefixes = options.allowPrefixes || false;
+        this.streams = {
+            stdout: options.stdout || process.stdout,
+            stderr: options.stderr || process.stderr,
+            stdin: options.stdin || process.stdin
+        };
+        this.exitCodes = Object.assign({}, DEFAULT_EXIT_CODES, options.exitCodes);
+        this.debugFlag = (options.debugFlag === undefined ?
+                DEFAULT_DEBUG_FLAG : options.debugFlag);
+        this.debugEnv = (options.debugEnv === undefined ?
+                DEFAULT_DEBUG_ENV : options.debugEnv);
+        this.structuredOutput = options.structuredOutput || false;
+        this.outputFormat = 'text';
+        this.outputFormatter = null;
+        let globalOptions = options.globalOptions;
+        if (this.structuredOutput) {
+            globalOptions = Object.assign({}, globalOptions, {
+                format: {
+                    type: 'enum',
+                    description: this.catalog.format('option.format'),
+                    values: OutputFormatter.FORMATS,
+                    default: 'text'
+                },
+                json: {
+                    type: 'boolean',
+                    description: this.catalog.format('option.json')
+                }
+            });
+        }
+        this.promptOptions = options.promptOptions || false;
+        if (this.promptOptions) {
+            globalOptions = Object.assign({}, globalOptions, {
+                'yes': {
+                    type: 'boolean',
+                    description: this.catalog.format('option.yes')
+                },
+                'no-input': {
+                    type: 'boolean',
+                    description: this.catalog.format('option.no-input')
+                }
+            });
+        }
+        this.verbosityOptions = options.verbosityOptions || false;
+        if (this.verbosityOptions) {
+            globalOptions = Object.assign({}, globalOptions, {
+                verbose: {
+                    type: 'boolean',
+                    description: this.catalog.format('option.verbose'),
+                    aliases: ['v']
+                },
+                quiet: {
+                    type: 'boolean',
+                    description: this.catalog.format('option.quiet'),
+                    aliases: ['q']
+                }
+            });
+        }
+        this.logLevel = 'warn';
+        this.colorOption = options.colorOption || false;
+        if (this.colorOption) {
+            globalOptions = Object.assign({}, globalOptions, {
+                color: {
+                    type: 'enum',
+                    description: this.catalog.format('option.color'),
+                    values: Style.MODES,
+                    default: 'auto'
+                }
+            });
+        }
+        this.globalSchema = new OptionSchema(globalOptions);
+        this.globals = {};
+        this.toolName = options.toolName || null;
+        this.origins = {};
+        this.lenientOptions = options.lenientOptions || false;
+        this.helpCommand = options.helpCommand || false;
+        this.version = options.version || null;
+        this.handleSignals = options.handleSignals || false;
+        this.cancellation = new Cancellation();
+        this.cleanups = [];
+        this.toolSchema = new OptionSchema(this.version === null ? {} : {
+            version: {
+                type: 'boolean',
+                description: this.catalog.format('option.version')
+            }
+        });
         this.commandSpecs = [];
+        this.hooks = [];
     }
     
     //// PUBLIC METHODS ///////////////////////////////////////////////////////
     
     /**
-     * Adds named commands, which are subclasses of NamedCommand. May be called multiple times. If the first argument of the command line is the name of one of these added commands, that named command is performed instead of the default command, calling `doCommand()` on the NamedCommand rather than `doDefaultCommand()` on this MultiCommand.
+     * Adds named commands, which are subclasses of NamedCommand. May be called multiple times. If the first argument of the command line is the name of one of these added commands, that named command is performed instead of the default command, calling `doCommand()` on the NamedCommand rather than `doDefaultCommand()` on this MultiCommand. When the named command is a command group (see `CommandSpec#addCommands()`), the following arguments name a path of subcommands down the tree of commands.
      *
      * @param group Group of command specifications to add. Each group is considered related. Groups are spaced from other groups in help.
+     * @param heading Optional heading under which help lists the group.
+     * @throws Error when a command expects a global option that the runner does not declare (see CommandSpec).
      */
     
-    addCommands(group: CommandSpec[]) {
-        let firstOfGroup = true;
-        group.forEach(spec => {
-
-            this.commandSpecs.forEach(priorSpec => {
-
-                if (spec._normName === priorSpec._normName) {
-                    throw new Error("duplicate command name '"+
-                            spec._normName +"'");
-                }
-            });
-            spec._firstOfGroup = firstOfGroup;
-            firstOfGroup = false;
-            this.commandSpecs.push(spec);
-        });
+    addCommands(group: CommandSpec[], heading?: string) {
+        checkGlobalNames(this.globalSchema, group);
+        CommandSpec._addGroup(this.commandSpecs, group, null, heading);
     }
     
     /**
-     * Run the command line, including processing command line arguments. One of the methods MultiCommand::doDefaultCommand() and NamedCommand::doCommand() is responsible for performing the command after arguments have been processed. See NamedCommand for an explanation of how named commands are processed.
+     * Discovers plugins providing commands, either as installed packages whose names begin with a prefix or as modules residing in plugin directories, and adds their commands. Help lists the commands of each plugin under its own heading. See PluginLoader for the options and the form of plugin modules.
      *
-     * @param argv An array of command line arguments to process. This array must exclude the arguments for executing the command. For example, if "node filename" executes the command, the caller can provide process.argv.slice(2).
-     * @param next The next function to call. The caller should handle the error if it is an instance of CommandError.
+     * @param options Configuration of the discovery of plugins.
+     * @returns the plugins loaded.
+     * @throws PluginError when a plugin fails to load or has a command whose name or alias is already taken.
      */
     
-    run(argv: string[], next: (err?: Error) => void): void {
+    loadPlugins(options: PluginLoader.Options): PluginLoader.Plugin[] {
+        return new PluginLoader(this, options).load();
+    }
     
-        // Create basic minimist configuration options for all commands.
-        
-        const configOptions = { boolean: ['h'], alias: { h: 'help' } };
-        let args; // argument output of minimist, then further processed
-        let command: NamedCommand|null = null;
-        
-        // Load a named command. The command must be the first argument.
-        
-        if (argv.length > 0 && argv[0][0] !== '-') {
-            const commandName = String(argv[0]).toLowerCase();
-            let commandSpec: CommandSpec|null = null;
-            this.commandSpecs.forEach(spec => {
-
-                if (spec._normName === commandName)
-                    commandSpec = spec;
-            });
-            if (commandSpec === null) {
-                return next(new Errors.CommandUsageError(
-                        "unrecognized command '"+ commandName +"'"));
-            }
-            command = commandSpec!.createCommand();
-            command._init(this, commandSpec);
-            command.addOptions(configOptions);
-            args = Minimist(argv.slice(1), configOptions);
-        }
-        
-        // Load the default, unnamed command.
-        
-        else {
-            this.addDefaultOptions(configOptions);
-            args = Minimist(argv, configOptions);
-            // allows MultiCommand to have more specific method names
-        }
-        
-        // Show help if requested. (Additional args likely left out.)
-        
-        if (args.help) {
-            let text = (command ? command.getHelp(this.helpWrapWidth) :
-                    this.getHelp(this.helpWrapWidth));
-            process.stdout.write(
-                    OptionHelp.wrapText(text, this.helpWrapWidth, true));
-            return next();
+    /**
+     * Registers hooks that the runs of named commands and of the default command call around parsing the arguments and performing the command. Useful for work common to all commands, such as loading credentials, acquiring locks, timing runs, and logging outcomes. This method may be called multiple times, and each phase calls the hooks in the order registered. The phases are:
+     *
+     * - `beforeParse`: Called after finding the command and before parsing its arguments. The hook may modify `context.argv` to change the arguments to parse.
+     * - `afterParse`: Called after parsing and validating the arguments, once `context.args` is available. The hook may modify the properties of `context.args`, which pass to the command.
+     * - `beforeCommand`: Called immediately before performing the command.
+     * - `afterCommand`: Called after the command completes without error.
+     * - `onError`: Called with the error when an error ends the run, including errors that other hooks throw. The error still ends the run. An error that an `onError` hook throws is reported as a warning and does not replace the error ending the run.
+     *
+     * Runs that only show help call only the `beforeParse` hooks. Each hook may return a promise, which the run awaits. A hook short-circuits the run by throwing or rejecting with an error, which the run reports as it would report an error of the command, so that a CommandError ends the run with the error in its outcome.
+     *
+     * @param hooks An object providing any of the hooks.
+     * @returns this CommandRunner, for chaining calls.
+     */
+    
+    use(hooks: CommandRunner.Hooks): this {
+        this.hooks.push(hooks);
+        return this;
+    }
+    
+    /**
+     * Runs the tool as the main module of the process. The method runs the command line, reports any error to stderr via `formatError()`, and sets `process.exitCode` to the exit code that `getExitCode()` assigns to the outcome. The debug option configured for the CommandRunner may occur anywhere before `--` on the command line and is removed before running the command line. In debug mode, the run also reports to stderr where the value of each declared option came from.
+     *
+     * @param argv An array of command line arguments to process, excluding those that execute the tool. Defaults to `process.argv.slice(2)`.
+     * @returns a promise resolving to the exit code.
+     */
+    
+    async main(argv?: string[]): Promise<number> {
+        argv = (argv || process.argv.slice(2)).slice();
+        let debug = (this.debugEnv !== null && !!process.env[this.debugEnv]);
+        const endIndex = argv.indexOf('--');
+        const debugIndex = (this.debugFlag === null ? -1 :
+                argv.indexOf(this.debugFlag));
+        if (debugIndex >= 0 && (endIndex < 0 || debugIndex < endIndex)) {
+            argv.splice(debugIndex, 1);
+            debug = true;
         }
-
-        // Parse the arguments, throwing CommandUsageError when a problem
-        // is found with the user input.
         
-        args._ = args._.map(arg => {
-            return String(arg); // minimist shouldn't decide non-option types
-        });
+        let error: Error|undefined;
+        this.debugging = debug;
         try {
-            if (command)
-                command.parseArgs(args);
-            else
-                this.parseDefaultArgs(args);
-            if (args._.length > 0)
-                return next(new Errors.UnexpectedArgError(args._[0]));
+            error = (await this.run(argv)).error;
         }
-        catch(err) {
-            if (err instanceof Errors.CommandError)
-                return next(err);
-            throw err;
+        catch (err) {
+            error = err;
         }
-        
-        // Perform the command.
-
-        if (command)
-            command.doCommand(args, next);
-        else
-            this.doDefaultCommand(args, next);
+        this.debugging = false;
+        if (error)
+            this.streams.stderr.write(this.formatError(error, debug));
+        const exitCode = this.getExitCode(error);
+        process.exitCode = exitCode;
+        return exitCode;
     }
     
-    //// PROTECTED METHODS ////////////////////////////////////////////////////
-    // subclasses may override these methods
+    /**
+     * Runs an interactive shell that repeatedly prompts the user for a command line and runs it as `run()` would, reporting errors without exiting, until the user exits the shell. See CommandShell for the options and behavior of the shell.
+     *
+     * @param options Optional configuration of the shell.
+     * @returns a promise that resolves when the user exits the shell.
+     */
+    
+    runShell(options?: CommandShell.Options): Promise<void> {
+        return new CommandShell(this, options).run();
+    }
     
     /**
-     * Adds command line options to the two already supported, `-h` and `--help`, for the case where the command line does not include a command name. Command line options are arguments that begin with one or two dashes. The method receives a minimist configuration options object and optionally extends this object. See NamedCommand::addOptions() for a fuller explanation of the purpose and behavior of this method.
+     * Returns the values of the global options for the current or most recent run, keyed by option name, as coerced and validated according to the declared global options. Named commands may access these values via `this.runner.getGlobals()`.
+     */
+    
+    getGlobals(): { [name: string]: any } {
+        return this.globals;
+    }
+    
+    /**
+     * Returns the name of the tool, as configured for the CommandRunner, or null if not configured.
+     */
+    
+    getToolName(): string|null {
+        return this.toolName;
+    }
+    
+    /**
+     * Returns where the values of the declared options of the current or most recent run came from, keyed by option name, including the global options. Each description is 'command line', 'environment variable <name>', the description of a configuration file section, 'default', or 'unset'.
+     */
+    
+    getOptionOrigins(): OptionSchema.Origins {
+        return this.origins;
+    }
+    
+    /**
+     * Returns the formatter that renders structured output in the format that the current or most recent run selected, fitting text output to the width that `getHelpWidth()` provides. The format is always 'text' unless the CommandRunner was configured with `structuredOutput`. Each run has its own formatter, so that the CSV header precedes only the run's first record.
+     */
+    
+    getOutputFormatter(): OutputFormatter {
+        if (this.outputFormatter === null ||
+                this.outputFormatter.getFormat() !== this.outputFormat)
+        {
+            this.outputFormatter = new OutputFormatter(this.outputFormat,
+                    this.getHelpWidth());
+        }
+        return this.outputFormatter;
+    }
+    
+    /**
+     * Returns the width in characters at which to wrap help, which is the configured `helpWrapWidth`, if any, or else the width of the terminal when stdout is a terminal, or else 80.
+     */
+    
+    getHelpWidth(): number {
+        if (this.helpWrapWidth !== null)
+            return this.helpWrapWidth;
+        const columns = (<NodeJS.WriteStream>this.streams.stdout).columns;
+        return (CommandUtil.isTTY(this.streams.stdout) && columns ? columns :
+                DEFAULT_WRAP_WIDTH);
+    }
+    
+    /**
+     * Writes help to stdout, wrapping it at the width that `getHelpWidth()` provides and styling it as `Style#styleHelp()` does for the layout that `getHelpLayout()` provides, when styling is enabled. Help longer than the terminal is tall goes through a pager, as configured via `helpPager`. When the pager cannot run, the help is written directly.
      *
-     * `addDefaultOptions()` does nothing by default. A subclass overrides this method to provide support for option arguments (arguments beginning with one or two dashes).
+     * @param help The help to write, as plain text.
+     * @param colorMode Optional mode determining whether to style the help. Defaults to 'auto'.
+     * @returns a promise that resolves once the help is written or the user quits the pager.
+     */
+    
+    async writeHelp(help: string, colorMode?: Style.Mode): Promise<void> {
+        const width = this.getHelpWidth();
+        const style = Style.forStream(this.streams.stdout, colorMode);
+        const text = style.styleHelp(OptionHelp.wrapText(help, width, true),
+                this.getHelpLayout(width));
+        if (this.helpPager && this.streams.stdout === process.stdout &&
+                this.streams.stdin === process.stdin &&
+                CommandUtil.isTTY(process.stdout) &&
+                CommandUtil.isTTY(process.stdin) &&
+                text.split("\n").length > (process.stdout.rows || Infinity) &&
+                await pageText(text))
+            return;
+        this.streams.stdout.write(text);
+    }
+    
+    /**
+     * Returns a Prompter for asking the user for values using the runner's streams. Prompts wait for the user only when the input stream is a terminal and neither `--yes` nor `--no-input` was provided to the current or most recent run (see the `promptOptions` configuration). Otherwise, prompts resolve to their defaults or fail with a CommandError, except that `--yes` confirms all confirmations.
+     */
+    
+    getPrompter(): Prompter {
+        const assumeYes = !!this.globals['yes'];
+        return new Prompter(this.streams, {
+            interactive: CommandUtil.isTTY(this.streams.stdin) && !assumeYes &&
+                    !this.globals['no-input'],
+            assumeYes,
+            yesFlag: (this.promptOptions ? '--yes' : undefined),
+            catalog: this.catalog
+        });
+    }
+    
+    /**
+     * Returns the catalog of messages in the locale of the user, as configured for the CommandRunner. Commands may use the catalog to localize their own output.
+     */
+    
+    getMessageCatalog(): MessageCatalog {
+        return this.catalog;
+    }
+    
+    /**
+     * Returns the summary of a command for help, which the message catalog provides under the id `command.<path>.summary`, where `<path>` is the command's lowercase path with its names separated by periods. Returns the summary that the command's CommandSpec declares when the catalog does not provide one.
      *
-     * @param options A configuration object of options for minimist. Call `CommandUtil.addOptions(options, moreOptions)` to define more options.
+     * @param spec The specification for the command.
      */
     
-    addDefaultOptions(options: Minimist.Opts): void {
-        // there are no additional options by default
+    getCommandSummary(spec: CommandSpec): string {
+        const summary = this.catalog.lookup(getMessagePrefix(spec) +'summary');
+        return (summary === null ? spec._summary : summary);
     }
-
+    
     /**
-     * Parses and validates command line arguments for the case where the command line does not include a command name. The arguments are provided in the form of the output of minimist. The modified arguments subsequently pass to `doDefaultCommand()`. See `NamedCommand#parseArgs` for a fuller explanation of the purpose and behavior of this method.
+     * Returns the description of a command for help, which the message catalog provides under the id `command.<path>.description`, where `<path>` is as for `getCommandSummary()`. Returns the description that the command's CommandSpec declares when the catalog does not provide one, which may be null.
      *
-     * This method should throw CommandUsageError if any arguments are invalid. This method's final value of `args` passes to `doDefaultCommand()`.
+     * @param spec The specification for the command.
+     */
+    
+    getCommandDescription(spec: CommandSpec): string|null {
+        const description =
+                this.catalog.lookup(getMessagePrefix(spec) +'description');
+        return (description === null ? spec._description : description);
+    }
+    
+    /**
+     * Indicates whether the current or most recent run is a dry run, having been given `--dry-run`, in which case the command should report what it would do without doing it. Destructive commands receive this option (see CommandSpec), but other commands may also declare it.
+     */
+    
+    isDryRun(): boolean {
+        return this.dryRun;
+    }
+    
+    /**
+     * Asks the user to confirm running a destructive command, which CommandRunner calls just before performing the command, unless the run is a dry run or `--yes` was given. The default implementation asks the question that the command's CommandSpec provides, or a generic question naming the command, and fails with a CommandError when the user cannot be asked, suggesting `--yes`. Override this method to customize the confirmation.
      *
-     * `parseDefaultArgs()` does nothing by default. Override this method in a subclass to preprocess any provided argument options.
+     * @param spec The specification for the destructive command.
+     * @param args The parsed arguments of the command.
+     * @returns a promise resolving to true when the user confirms.
+     */
+    
+    confirmCommand(spec: CommandSpec, args: Minimist.ParsedArgs)
+        : Promise<boolean>
+    {
+        const prompter = new Prompter(this.streams, {
+            interactive: CommandUtil.isTTY(this.streams.stdin) &&
+                    !this.globals['no-input'],
+            yesFlag: '--yes',
+            catalog: this.catalog
+        });
+        return prompter.confirm(spec._confirmation ||
+                this.catalog.format('prompt.confirm-destructive',
+                    { path: spec.getPath().toLowerCase() }));
+    }
+    
+    /**
+     * Returns the Cancellation of the current or most recent run, which indicates whether the user cancelled the command, as by pressing Ctrl-C. See the `handleSignals` configuration.
+     */
+    
+    getCancellation(): Cancellation {
+        return this.cancellation;
+    }
+    
+    /**
+     * Registers a function that cleans up after the current run should the command be cancelled or fail, such as by removing temporary files or reverting partially-written state. Cleanups run in the reverse order of registration, and cleanups that fail are reported to stderr without ending the others. Cleanups do not run when the command succeeds.
      *
-     * @param args The command line arguments as output by minimist and processed by `addDefaultOptions()`. Feel free to modify this object or copy values to instance variables of the named command. `args._` will be empty.
+     * @param cleanup The function performing the cleanup, which may return a promise.
      */
     
-    parseDefaultArgs(args: Minimist.ParsedArgs): void {
-        // nothing to parse by default
+    addCleanup(cleanup: CommandRunner.Cleanup): void {
+        this.cleanups.push(cleanup);
+    }
+    
+    /**
+     * Returns a Logger that writes messages to stderr at the level selected for the current or most recent run. See the `verbosityOptions` configuration.
+     */
+    
+    getLogger(): Logger {
+        return new Logger(this.streams.stderr, this.logLevel, this.catalog);
     }
     
     /**
-     * Performs the default command. The default command is the command that MultiCommand represents when the first command line argument is not a command name. The method is called with the arguments object that `parseDefaultArgs()` processed. Behavior may be a function of these arguments and a function of any instance variables that `parseDefaultArgs()` established. The method must call the `next()` callback when done and may pass an instance of CommandError to `next()` to report an error to the calling application.
+     * Creates a Spinner that reports the progress of work of unknown duration to stderr. The spinner animates only when stderr is a terminal and renders nothing when `--quiet` was provided to the current run.
      *
-     * @param args An object containing the arguments output of minimist after processing by `parseDefaultArgs()`, including the command line options that `addDefaultOptions()` defined. `args._` is not available to this method.
-     * @param next The next to call. The method must call this function when done and must not call it more than once.
+     * @param message Message describing the work in progress.
+     * @returns the spinner, not yet started.
      */
     
-    doDefaultCommand(args: Minimist.ParsedArgs, next: (err?: Error) => void) {
-        if (this.commandSpecs.length > 0)
-            next(new Errors.CommandUsageError("Missing command argument"));
-        else
-            next(new Error("Default command not implemented"));
+    createSpinner(message: string): Spinner {
+        return new Spinner(this.streams.stderr, message, {
+            enabled: this.logLevel !== 'error',
+            catalog: this.catalog
+        });
     }
     
     /**
-     * Returns a help summary of all of the commands. The default implementation prepends the output of `getHelpIntro()`, appends the output of `getHelpSummaryEntry()` for each named command, and finally appends the output of `getHelpTrailer()`. Override any of those methods to refine the default behavior, or override this method to completely replace this behavior. The output gets wrapped at a width configured for MultiCommand.
+     * Creates a ProgressBar that reports the progress of work of known size to stderr. The bar animates only when stderr is a terminal and renders nothing when `--quiet` was provided to the current run.
      *
-     * @param rightMargin The character column after which CommandRunner will wrap the return value. Useful here for overriding default wrapping behavior.
-     * @returns help output summarizing all of the commands.
+     * @param message Message describing the work in progress.
+     * @param total The amount of work to be done.
+     * @returns the progress bar, not yet started.
      */
-         
-    getHelp(rightMargin: number): string {
-        if (this.commandSpecs.length === 0)
-            return "Help is not available.";
-            
-        let help = this.getHelpIntro(rightMargin);
-        this.commandSpecs.forEach(spec => {
-
-            if (spec._firstOfGroup)
-                help += "\n";
-            help += this.getHelpSummaryEntry(spec, rightMargin);
+    
+    createProgressBar(message: string, total: number): ProgressBar {
+        return new ProgressBar(this.streams.stderr, message, total, {
+            enabled: this.logLevel !== 'error',
+            catalog: this.catalog
         });
-        return help + this.getHelpTrailer(rightMargin);
     }
     
     /**
-     * Returns the introduction for the help page that summarizes all of the available commands. A list of the available commands immediately follows this introduction, so the introduction may wish to introduce them.
+     * Returns the schema of the global options.
+     */
+    
+    getGlobalOptionSchema(): OptionSchema {
+        return this.globalSchema;
+    }
+    
+    /**
+     * Returns the schema of the options available only when no command is named, such as `--version`.
+     */
+    
+    getToolOptionSchema(): OptionSchema {
+        return this.toolSchema;
+    }
+    
+    /**
+     * Returns the version of the tool, or null if the tool was not configured with a version.
+     */
+    
+    getVersion(): string|null {
+        return this.version;
+    }
+    
+    /**
+     * Indicates whether the built-in `help` command is available, which requires configuring `helpCommand` and not adding a command of the same name.
+     */
+    
+    hasHelpCommand(): boolean {
+        return this.helpCommand &&
+                !this.commandSpecs.some(spec => spec.hasName('help'));
+    }
+    
+    /**
+     * Returns the streams that the tool and its commands use for output and for prompting the user.
+     */
+    
+    getStreams(): CommandRunner.Streams {
+        return Object.assign({}, this.streams);
+    }
+    
+    /**
+     * Replaces any of the streams that the tool and its commands use for output and for prompting the user. Useful for running commands in-process, such as for testing. See CommandTester.
      *
-     * @param rightMargin The character column after which CommandRunner will wrap the return value. Useful here for overriding default wrapping behavior.
-     * @returns an overall introduction to the general help page.
+     * @param streams The streams to replace, keyed by `stdout`, `stderr`, or `stdin`.
      */
     
-    getHelpIntro(rightMargin: number): string {
-        return "This tool supports the following commands:\n";
+    setStreams(streams: Partial<CommandRunner.Streams>): void {
+        Object.assign(this.streams, streams);
     }
     
     /**
-     * Returns the summary help for a particular command as it should appear within the general help page.
+     * Returns the completions of the last of the provided command line words, completing command names, option names, and option values. Shell completion scripts get these completions by running the tool with the hidden command `__complete`, which `run()` answers by writing the completions to stdout, one per line.
      *
-     * @param spec The specification for the command.
-     * @param rightMargin The character column after which CommandRunner will wrap the return value. Useful here for overriding default wrapping behavior.
-     * @return a summary of the indicated command.
+     * @param words The words of the command line that follow the tool name, the last of which is the partial word to complete, possibly empty.
+     * @returns a promise resolving to the completions of the partial word
      */
     
-    getHelpSummaryEntry(spec: CommandSpec, rightMargin: number): string {
-        const syntax = OptionHelp.wrapText(spec._name.toUpperCase() +
-                spec._syntax.substr(spec._name.length), rightMargin, 4);
-        const summary = OptionHelp.wrapText('  '+ spec._summary,
-                            rightMargin, true)
-        return `${syntax}\n${summary}\n`;        
+    complete(words: string[]): Promise<string[]> {
+        return new Completion(this).complete(words);
     }
     
     /**
-     * Returns text that should follow the summaries of all of the commands on the general help page. Returns only a blank line by default.
+     * Returns a script that provides completion for this tool in the given shell. `run()` also writes this script to stdout when the command line is the hidden command `__completion <shell> [programName]`, so that a user can install completion with `source <(mytool __completion bash)` or equivalent.
      *
-     * @param rightMargin The character column after which CommandRunner will wrap the return value. Useful here for overriding default wrapping behavior.
-     * @returns the text that ends the general help.
+     * @param shell One of 'bash', 'zsh', or 'fish'.
+     * @param programName The name by which the user runs the tool.
+     * @returns the text of the completion script.
      */
     
-    getHelpTrailer(rightMargin: number): string {
-        return "\n";
+    getCompletionScript(shell: Completion.Shell, programName: string): string {
+        return Completion.getScript(shell, programName);
+    }
+    
+    /**
+     * Returns the specifications of the top-level commands, in the order they were added. The specifications of subcommands are available from the specifications of their command groups.
+     */
+    
+    getCommandSpecs(): CommandSpec[] {
+        return this.commandSpecs;
+    }
+    
+    /**
+     * Runs a registered command programmatically, as from other Node code or from within another command, and provides the value that the command's `doCommand()` returns. The arguments are either a command line or an object of option and argument values, which converts to a command line, so that the command parses and validates them as it would when run from the command line. The command's output either passes through to the runner's streams, is captured, or is discarded.
+     *
+     * An invocation made while another command is running shares the running command's Cancellation, leaving signal handling to the outer run. The state of the outer run, including its global option values and output format, is restored when the invocation completes. Global options do not carry over into the invocation; provide them among the arguments.
+     *
+     * @param name The name of the command, or the path of names of a subcommand, either as a string of names separated by spaces, as in "remote add", or as an array of names.
+     * @param input Optional arguments, either as an array of command line arguments following the command name, or as an object of values keyed by option or argument name. In an object, a value of true or false provides or negates a flag, an array provides an option repeatedly, and the values of positional arguments are assigned in the order that the command's syntax declares them. Defaults to no arguments.
+     * @param options Optional configuration, accepting `output`, which is 'inherit' to write the command's output to the runner's streams, 'capture' to collect the output into the invocation's `stdout` and `stderr`, or 'discard' to ignore the output. Defaults to 'inherit'.
+     * @returns a promise resolving to the command's result and any captured output.
+     * @throws CommandUsageError when the name is empty or there is no command having the name.
+     * @throws any error that ends the run of the command.
+     */
+    
+    async invoke<R = any>(
+        name: string|string[],
+        input?: string[]|CommandRunner.InvokeArgs,
+        options?: CommandRunner.InvokeOptions
+    ): Promise<CommandRunner.Invocation<R>> {
+        const path = (typeof name === 'string' ? [name] : name).join(' ')
+            .split(/\s+/).filter(commandName => commandName !== '');
+        if (path.length === 0)
+            throw new Errors.CommandUsageError({ id: 'error.missing-command' });
+        let specs = this.commandSpecs;
+        let spec: CommandSpec|null = null;
+        path.forEach(commandName => {
+            const found = this.findCommand(specs, commandName.toLowerCase());
+            if (found === null) {
+                throw this.getUnrecognizedCommandError(specs,
+                        commandName.toLowerCase(), spec);
+            }
+            spec = found;
+            specs = found._children;
+        });
+        const argv = path.concat(Array.isArray(input) ? input :
+                toArgv(spec!, input || {}));
+
+        const output = (options && options.output) || 'inherit';
+        const stdout = new CaptureStream();
+        const stderr = new CaptureStream();
+        const savedStreams = this.getStreams();
+        if (output === 'capture')
+            this.setStreams({ stdout, stderr });
+        else if (output === 'discard') {
+            this.setStreams({
+                stdout: new NullStream(),
+                stderr: new NullStream()
+            });
+        }
+        let outcome: CommandRunner.Outcome;
+        try {
+            outcome = await this._run(argv);
+        }
+        finally {
+            this.setStreams(savedStreams);
+        }
+        if (outcome.error)
+            throw outcome.error;
+        return {
+            result: outcome.result,
+            stdout: stdout.getText(),
+            stderr: stderr.getText(),
+            outcome
+        };
+    }
+    
+    /**
+     * Run the command line, including processing command line arguments. One of the methods MultiCommand::doDefaultCommand() and NamedCommand::doCommand() is responsible for performing the command after arguments have been processed. See NamedCommand for an explanation of how named commands are processed.
+     *
+     * The method returns a promise that resolves to an outcome describing the run. When `next` is not provided, instances of CommandError resolve into `outcome.error`, and any other error rejects the promise. When `next` is provided, every error passes to `next()`, and the returned promise always resolves.
+     *
+     * @param argv An array of command line arguments to process. This array must exclude the arguments for executing the command. For example, if "node filename" executes the command, the caller can provide process.argv.slice(2).
+     * @param next Optional next function to call. The caller should handle the error if it is an instance of CommandError.
+     * @returns a promise resolving to the outcome of the run
+     */
+    
+    run(argv: string[], next?: (err?: Error) => void)
+        : Promise<CommandRunner.Outcome>
+    {
+        const outcome = this._run(argv);
+        if (!next)
+            return outcome;
+        return outcome.then(outcome => {
+            next(outcome.error);
+            return outcome;
+        }, err => {
+            next(err);
+            return {
+                spec: null, command: null, args: null, helpShown: false,
+                error: err
+            };
+        });
     }
+    
+    //// PROTECTED METHODS ////////////////////////////////////////////////////
+    // subclasses may override these methods
+    
+    /**
+     * Returns the specification of the command having the given name or alias from among a list of command specifications. When prefixes are allowed, also returns the only command having a name or alias that begins with the given name. Used to find the command named on the command line at each level of the tree of commands.
+     *
+     * @param specs The specifications from which to select a command.
+     * @param name The name of the command, as it occurs on the command line, in lowercase.
+     * @returns the specification of the named command, or null if there is no such command or if a prefix is ambiguous.
+     */
+    
+    findCommand(specs: CommandSpec[], name: string): CommandSpec|null {
+        for (let i = 0; i < specs.length; ++i) {
+            if (specs[i].hasName(name))
+                return specs[i];
+        }
+        if (this.allowPrefixes) {
+            const matches = this.findPrefixMatches(specs, name);
+            if (matches.length === 1)
+                return matches[0];
+        }
+        return null;
+    }
+    
+    /**
+     * Returns the specifications of the commands having a name or alias that begins with the given name, excluding hidden commands.
+     *
+     * @param specs The specifications from which to select commands.
+     * @param name The prefix of a command name, in lowercase.
+     * @returns the matching specifications.
+     */
+    
+    findPrefixMatches(specs: CommandSpec[], name: string): CommandSpec[] {
+        return specs.filter(spec => !spec._hidden &&
+            [spec._normName].concat(spec._normAliases).some(specName =>
+                    specName.substr(0, name.length) === name));
+    }
+    
+    /**
+     * Returns the number of command line arguments that a global option occupies, including the option's value, if the argument at the given index is a global option. Returns 0 if the argument is not a global option. Used to skip over global options that precede or fall among the names of commands.
+     *
+     * @param argv The command line arguments.
+     * @param index The index of the argument to examine.
+     * @returns the number of arguments the global option occupies, or 0.
+     */
+    
+    countGlobalOptionArgs(argv: string[], index: number): number {
+        const arg = argv[index];
+        const matches = arg.match(/^(--?)([^=]+)(=.*)?$/);
+        if (!matches || arg === '--')
+            return 0;
+        let names = [matches[2]];
+        if (matches[1] === '-')
+            names = matches[2].split(''); // possibly clustered short flags
+        else if (names[0].substr(0, 3) === 'no-' && !matches[3] &&
+                this.globalSchema.getDefinition(names[0]) === null)
+            names = [names[0].substr(3)]; // possibly negated boolean
+        const defs = names.map(name => this.globalSchema.getDefinition(name));
+        if (defs.some(def => def === null))
+            return 0;
+        const last = defs[defs.length - 1]!;
+        if (last.type === 'boolean' || matches[3] ||
+                defs.slice(0, -1).some(def => def!.type !== 'boolean'))
+            return 1;
+        return (index + 1 < argv.length ? 2 : 1);
+    }
+    
+    /**
+     * Returns the error to report when the command line names a command that `findCommand()` does not find. The error's message reports an ambiguous prefix or suggests the commands having names closest to the given name, never suggesting hidden commands.
+     *
+     * @param specs The specifications from which the command was to be selected.
+     * @param name The name of the command, as it occurs on the command line, in lowercase.
+     * @param group The specification of the command group to which the named command was to belong, or null for a top-level command.
+     * @returns an error describing the problem with the command name.
+     */
+    
+    getUnrecognizedCommandError(
+        specs: CommandSpec[],
+        name: string,
+        group: CommandSpec|null
+    ): Errors.CommandUsageError {
+        const path = (group ? group.getPath().toLowerCase() +' ' : '') + name;
+        if (this.allowPrefixes) {
+            const matches = this.findPrefixMatches(specs, name);
+            if (matches.length > 1) {
+                return new Errors.CommandUsageError({
+                    id: 'error.ambiguous-command',
+                    params: {
+                        path,
+                        matches: quoteList(matches.map(spec => spec._normName))
+                    }
+                });
+            }
+        }
+        let names: string[] = [];
+        specs.filter(spec => !spec._hidden).forEach(spec => {
+            names = names.concat(spec._normName, spec._normAliases);
+        });
+        const suggestions = CommandUtil.getSuggestions(name, names);
+        return new Errors.CommandUsageError(suggestions.length === 0 ? {
+            id: 'error.unrecognized-command',
+            params: { path }
+        } : {
+            id: 'error.unrecognized-command-suggest',
+            params: { path, suggestions: quoteList(suggestions) }
+        });
+    }
+    
+    /**
+     * Returns the exit code for the process when a run ends with the given error, or 0 when there is no error. A CommandError having its own `exitCode` determines the exit code. A CommandCancelledError for SIGINT or SIGTERM has the exit code 130 or 143, respectively, as shells report for processes that these signals end. Otherwise the exit code depends on the class of the error, as configured for the CommandRunner.
+     *
+     * @param err The error with which the run ended, if any.
+     * @returns the exit code.
+     */
+    
+    getExitCode(err?: Error): number {
+        if (!err)
+            return 0;
+        if (err instanceof Errors.CommandError) {
+            if (err.exitCode !== undefined)
+                return err.exitCode;
+            if (err instanceof Errors.CommandCancelledError &&
+                    err.signal !== null && SIGNAL_EXIT_CODES[err.signal])
+                return SIGNAL_EXIT_CODES[err.signal];
+            return (err instanceof Errors.CommandUsageError ?
+                    this.exitCodes.usage : this.exitCodes.command);
+        }
+        return this.exitCodes.unexpected;
+    }
+    
+    /**
+     * Returns the text that reports an error to the user on stderr. The text includes the error's hint and a chain of causes, when provided, and is followed by a line break. CommandErrors having message ids are reported in the locale of the message catalog. Usage errors refer the user to help. In debug mode, or for errors that are not CommandErrors, the text also includes the stacks of the errors. When the run selected the JSON or NDJSON output format, the text is instead a JSON object describing the error, as `OutputFormatter#formatError()` renders it.
+     *
+     * @param err The error to report.
+     * @param debug Whether to include the stacks of the errors.
+     * @returns the text reporting the error.
+     */
+    
+    formatError(err: Error, debug: boolean): string {
+        if (this.outputFormat === 'json' || this.outputFormat === 'ndjson') {
+            return this.getOutputFormatter().formatError(err,
+                    this.getExitCode(err), debug);
+        }
+        const unexpected = !(err instanceof Errors.CommandError);
+        let text = (debug && err.stack ? err.stack :
+                unexpected ? String(err) : this.getErrorMessage(err));
+        if (err instanceof Errors.CommandUsageError && !debug)
+            text = this.catalog.format('error.usage-help', { message: text });
+        text += "\n";
+        if (err instanceof Errors.CommandError) {
+            if (err.hintText)
+                text += this.catalog.render(err.hintText) +"\n";
+            else if (err.hint)
+                text += err.hint +"\n";
+            let cause = err.cause;
+            while (cause) {
+                text += this.catalog.format('error.caused-by', {
+                    message: (debug && cause.stack ? cause.stack :
+                            this.getErrorMessage(cause))
+                }) +"\n";
+                cause = (cause instanceof Errors.CommandError ?
+                            cause.cause : undefined);
+            }
+        }
+        if (unexpected && !debug && this.debugFlag !== null) {
+            text += this.catalog.format('error.rerun-for-details',
+                    { flag: this.debugFlag }) +"\n";
+        }
+        return text;
+    }
+    
+    /**
+     * Returns the message of an error in the locale of the message catalog. This is the rendering of the error's message id and parameters for a CommandError having them, and otherwise the error's `message`.
+     *
+     * @param err The error whose message to return.
+     */
+    
+    getErrorMessage(err: Error): string {
+        if (err instanceof Errors.CommandError && err.text !== null)
+            return this.catalog.render(err.text);
+        return err.message;
+    }
+    
+    /**
+     * Returns the paths of the configuration files that provide option values, in order of precedence, when the CommandRunner is configured with a `toolName`. The first is the project file `.<toolName>.json` found in the current directory or the nearest ancestor directory having one, if any. The second is the user file `.<toolName>.json` in the home directory, if it exists. A project file that is the user file is only the user file.
+     */
+    
+    getConfigFiles(): string[] {
+        if (this.toolName === null)
+            return [];
+        const filename = '.'+ this.toolName +'.json';
+        const userFile = Path.join(OS.homedir(), filename);
+        const files: string[] = [];
+        let dirPath = process.cwd();
+        while (true) {
+            const filePath = Path.join(dirPath, filename);
+            if (FS.existsSync(filePath)) {
+                if (filePath !== userFile)
+                    files.push(filePath);
+                break;
+            }
+            const parentPath = Path.dirname(dirPath);
+            if (parentPath === dirPath)
+                break;
+            dirPath = parentPath;
+        }
+        if (FS.existsSync(userFile))
+            files.push(userFile);
+        return files;
+    }
+    
+    /**
+     * Returns the sources of option values that the configuration files provide for a command, in order of precedence. Each configuration file contains a JSON object whose properties are option values keyed by option name or alias. The object may also have a `commands` property, which is an object of sections keyed by command path, such as `deploy` or `say goodbye`. Each section is an object of option values for the command having the path, as well as for its subcommands. Within each file, the values of the command's section take precedence over those of the sections of its command groups, which take precedence over the file's top-level values. Values for options that a command does not declare are ignored.
+     *
+     * @param spec The specification of the command to run, or null for the default command.
+     * @returns the sources of option values.
+     * @throws CommandError when a configuration file is not valid JSON or does not contain an object.
+     */
+    
+    getConfigSources(spec: CommandSpec|null): OptionSchema.Source[] {
+        const sources: OptionSchema.Source[] = [];
+        this.getConfigFiles().forEach(filePath => {
+            const config = readConfigFile(filePath);
+            const sections = config.commands || {};
+            for (let group = spec; group !== null; group = group._parent) {
+                const path = group.getPath().toLowerCase();
+                if (isObject(sections[path])) {
+                    sources.push({
+                        label: `${filePath} [commands.${path}]`,
+                        values: sections[path]
+                    });
+                }
+            }
+            const values = Object.assign({}, config);
+            delete values.commands;
+            sources.push({ label: filePath, values });
+        });
+        return sources;
+    }
+    
+    /**
+     * Returns the report of where the values of the declared options came from, which `main()` writes to stderr in debug mode.
+     *
+     * @param args The arguments that the command line provides, including the values of the declared options.
+     * @returns the report, ending with `\n`.
+     */
+    
+    getOriginsReport(args: Minimist.ParsedArgs): string {
+        return "option values:\n"+ Object.keys(this.origins).map(name =>
+                "  "+ (name.length === 1 ? '-' : '--') + name +" = "+
+                JSON.stringify(args[name]) +" ("+ this.origins[name] +")\n"
+            ).join('');
+    }
+    
+    /**
+     * Adds command line options to the two already supported, `-h` and `--help`, for the case where the command line does not include a command name. Command line options are arguments that begin with one or two dashes. The method receives a minimist configuration options object and optionally extends this object. See NamedCommand::addOptions() for a fuller explanation of the purpose and behavior of this method.
+     *
+     * `addDefaultOptions()` does nothing by default. A subclass overrides this method to provide support for option arguments (arguments beginning with one or two dashes).
+     *
+     * @param options A configuration object of options for minimist. Call `CommandUtil.addOptions(options, moreOptions)` to define more options.
+     */
+    
+    addDefaultOptions(options: Minimist.Opts): void {
+        // there are no additional options by default
+    }
+
+    /**
+     * Parses the command line arguments that follow the command name, or all of the arguments when there is no command name, according to the minimist configuration options that the command and the global options declare. Unless the CommandRunner was configured with `lenientOptions`, an ArgParser parses the arguments, rejecting options that are not declared.
+     *
+     * @param argv The command line arguments to parse.
+     * @param options A configuration object of options for minimist.
+     * @returns the parsed arguments, in the form that minimist outputs.
+     * @throws CommandUsageError when the arguments include an undeclared option or lack a required option value.
+     */
+    
+    parseCommandLine(argv: string[], options: Minimist.Opts)
+        : Minimist.ParsedArgs
+    {
+        const parser = new ArgParser(options);
+        if (this.lenientOptions)
+            return Minimist(keepLiteralNegations(argv, parser), options);
+        return parser.parse(argv);
+    }
+    
+    /**
+     * Parses and validates command line arguments for the case where the command line does not include a command name. The arguments are provided in the form of the output of minimist. The modified arguments subsequently pass to `doDefaultCommand()`. See `NamedCommand#parseArgs` for a fuller explanation of the purpose and behavior of this method.
+     *
+     * This method should throw CommandUsageError if any arguments are invalid. This method's final value of `args` passes to `doDefaultCommand()`.
+     *
+     * `parseDefaultArgs()` does nothing by default. Override this method in a subclass to preprocess any provided argument options.
+     *
+     * @param args The command line arguments as output by minimist and processed by `addDefaultOptions()`. Feel free to modify this object or copy values to instance variables of the named command. `args._` will be empty.
+     */
+    
+    parseDefaultArgs(args: Minimist.ParsedArgs): void {
+        // nothing to parse by default
+    }
+    
+    /**
+     * Performs the default command. The default command is the command that MultiCommand represents when the first command line argument is not a command name. The method is called with the arguments object that `parseDefaultArgs()` processed. Behavior may be a function of these arguments and a function of any instance variables that `parseDefaultArgs()` established. The method must either call the `next()` callback when done or return a promise, as explained for `NamedCommand#doCommand()`.
+     *
+     * @param args An object containing the arguments output of minimist after processing by `parseDefaultArgs()`, including the command line options that `addDefaultOptions()` defined. `args._` is not available to this method.
+     * @param next The next to call. Unless the method returns a promise, it must call this function when done and must not call it more than once.
+     * @returns nothing, or optionally a promise that settles when the command completes
+     */
+    
+    doDefaultCommand(args: Minimist.ParsedArgs, next: (err?: Error) => void)
+        : void|Promise<void>
+    {
+        if (this.commandSpecs.length > 0)
+            next(new Errors.CommandUsageError({ id: 'error.missing-command' }));
+        else
+            next(new Error("Default command not implemented"));
+    }
+    
+    /**
+     * Returns a help summary of all of the commands. The default implementation prepends the output of `getHelpIntro()`, appends the output of `getHelpSummaryEntry()` for each named command that is not hidden, appends help for any global options and for `--version`, if configured, and finally appends the output of `getHelpTrailer()`. Override any of those methods to refine the default behavior, or override this method to completely replace this behavior. The output gets wrapped at a width configured for MultiCommand.
+     *
+     * @param rightMargin The character column after which CommandRunner will wrap the return value. Useful here for overriding default wrapping behavior.
+     * @returns help output summarizing all of the commands.
+     */
+         
+    getHelp(rightMargin: number): string {
+        if (this.commandSpecs.length === 0)
+            return this.catalog.format('help.unavailable');
+            
+        let help = this.getHelpIntro(rightMargin);
+        help += this.getHelpSummaryList(this.commandSpecs, rightMargin);
+        help += this.globalSchema.getHelp(rightMargin,
+                this.catalog.format('help.global-options'), this.catalog);
+        help += this.toolSchema.getHelp(rightMargin,
+                this.catalog.format('help.tool-options'), this.catalog);
+        return help + this.getHelpTrailer(rightMargin);
+    }
+    
+    /**
+     * Returns help for a command group, which is shown when `-h` or `--help` follows the name of a command group on the command line. The default implementation shows the summary entry and description of the command group, followed by the output of `getHelpSummaryEntry()` for each of its subcommands that is not hidden, the group's "see also" references, and finally the output of `getHelpTrailer()`.
+     *
+     * @param spec The specification for the command group.
+     * @param rightMargin The character column after which CommandRunner will wrap the return value. Useful here for overriding default wrapping behavior.
+     * @returns help output summarizing the subcommands of the command group.
+     */
+    
+    getGroupHelp(spec: CommandSpec, rightMargin: number): string {
+        let help = this.getHelpSummaryEntry(spec, rightMargin);
+        help += this.getHelpDescription(spec, rightMargin);
+        help += "\n"+ this.catalog.format('help.subcommands-intro') +"\n";
+        help += this.getHelpSummaryList(spec._children, rightMargin);
+        help += this.getHelpSeeAlso(spec, rightMargin);
+        return help + this.getHelpTrailer(rightMargin);
+    }
+    
+    /**
+     * Returns the introduction for the help page that summarizes all of the available commands. A list of the available commands immediately follows this introduction, so the introduction may wish to introduce them.
+     *
+     * @param rightMargin The character column after which CommandRunner will wrap the return value. Useful here for overriding default wrapping behavior.
+     * @returns an overall introduction to the general help page.
+     */
+    
+    getHelpIntro(rightMargin: number): string {
+        return this.catalog.format('help.intro') +"\n";
+    }
+    
+    /**
+     * Returns the summary help for a particular command as it should appear within the general help page, giving the summary that `getCommandSummary()` provides. The summary marks destructive and deprecated commands.
+     *
+     * @param spec The specification for the command.
+     * @param rightMargin The character column after which CommandRunner will wrap the return value. Useful here for overriding default wrapping behavior.
+     * @return a summary of the indicated command.
+     */
+    
+    getHelpSummaryEntry(spec: CommandSpec, rightMargin: number): string {
+        const syntax = getHelpSyntax(spec, rightMargin);
+        let summary = '  '+ this.getCommandSummary(spec);
+        if (spec._destructive)
+            summary += ' '+ this.catalog.format('help.destructive');
+        if (spec._deprecated)
+            summary += ' '+ this.catalog.format('help.deprecated');
+        if (spec._normAliases.length > 0) {
+            summary += ' '+ this.catalog.format(spec._normAliases.length > 1 ?
+                    'help.aliases' : 'help.alias',
+                    { aliases: spec._normAliases.join(', ') });
+        }
+        summary = OptionHelp.wrapText(summary, rightMargin, true)
+        return `${syntax}\n${summary}\n`;        
+    }
+    
+    /**
+     * Returns the layout of the help that the runner composes, identifying the lines that `writeHelp()` styles: the headings of the groups of commands and of the examples, the headings of the lists of options, and the first line of each command's summary entry, as `getHelpSummaryEntry()` provides it. Override this method to style help composed in a different layout.
+     *
+     * @param rightMargin The character column at which the help is wrapped.
+     * @returns the lines of the help to style.
+     */
+    
+    getHelpLayout(rightMargin: number): Style.HelpLayout {
+        const layout: Style.HelpLayout = {
+            headings: [this.catalog.format('help.examples')],
+            optionHeadings: ['help.options', 'help.global-options',
+                    'help.tool-options'].map(id => this.catalog.format(id)),
+            entries: []
+        };
+        const addSpecs = (specs: CommandSpec[]) => specs.forEach(spec => {
+            if (spec._groupHeading)
+                layout.headings.push(spec._groupHeading +':');
+            layout.entries.push([
+                getHelpSyntax(spec, rightMargin).split("\n")[0],
+                spec.getPath().toUpperCase()
+            ]);
+            addSpecs(spec._children);
+        });
+        addSpecs(this.commandSpecs);
+        return layout;
+    }
+    
+    /**
+     * Returns the concatenated summary entries of a list of commands, each as provided by `getHelpSummaryEntry()`, spacing apart the groups of commands and preceding each group with its heading, if any. Hidden commands are left out, along with groups having only hidden commands.
+     *
+     * @param specs The specifications of the commands to summarize.
+     * @param rightMargin The character column after which CommandRunner will wrap the return value.
+     * @returns the summaries of the commands.
+     */
+    
+    getHelpSummaryList(specs: CommandSpec[], rightMargin: number): string {
+        let help = '';
+        let groupStart: CommandSpec|null = null; // first of unlisted group
+        specs.forEach(spec => {
+
+            if (spec._firstOfGroup)
+                groupStart = spec;
+            if (spec._hidden)
+                return;
+            if (groupStart !== null) {
+                help += "\n";
+                if (groupStart._groupHeading)
+                    help += groupStart._groupHeading +":\n";
+                groupStart = null;
+            }
+            help += this.getHelpSummaryEntry(spec, rightMargin);
+        });
+        return help;
+    }
+    
+    /**
+     * Returns the description of a command as it appears in the command's help, as `getCommandDescription()` provides it, followed by any note on the command's deprecation, each preceded by a blank line. Returns an empty string when there is neither.
+     *
+     * @param spec The specification for the command.
+     * @param rightMargin The character column after which CommandRunner will wrap the return value.
+     * @returns the description section of the command's help.
+     */
+    
+    getHelpDescription(spec: CommandSpec, rightMargin: number): string {
+        let help = '';
+        const description = this.getCommandDescription(spec);
+        if (description !== null)
+            help += "\n"+ description.replace(/\s+$/, '') +"\n";
+        if (spec._deprecationNote !== null) {
+            help += "\n"+ this.catalog.format('help.deprecation-note',
+                    { note: spec._deprecationNote }) +"\n";
+        }
+        return help;
+    }
+    
+    /**
+     * Returns the examples of a command as they appear in the command's help, under an "Examples" heading, or an empty string when the command has no examples. Each example shows its command line followed by its indented description.
+     *
+     * @param spec The specification for the command.
+     * @param rightMargin The character column after which CommandRunner will wrap the return value.
+     * @returns the examples section of the command's help.
+     */
+    
+    getHelpExamples(spec: CommandSpec, rightMargin: number): string {
+        if (spec._examples.length === 0)
+            return '';
+        return "\n"+ this.catalog.format('help.examples') +"\n"+
+                spec._examples.map(example =>
+            OptionHelp.wrapText('  '+ example.command, rightMargin, 4) +"\n"+
+                (example.description ? OptionHelp.wrapText('      '+
+                    example.description, rightMargin, true) +"\n" : '')
+        ).join('');
+    }
+    
+    /**
+     * Returns the related commands and references of a command as they appear in the command's help, or an empty string when there are none.
+     *
+     * @param spec The specification for the command.
+     * @param rightMargin The character column after which CommandRunner will wrap the return value.
+     * @returns the "see also" section of the command's help.
+     */
+    
+    getHelpSeeAlso(spec: CommandSpec, rightMargin: number): string {
+        if (spec._seeAlso.length === 0)
+            return '';
+        const seeAlso = this.catalog.format('help.see-also',
+                { references: spec._seeAlso.join(', ') });
+        return "\n"+ OptionHelp.wrapText(seeAlso, rightMargin, 4) +"\n";
+    }
+    
+    /**
+     * Returns text that should follow the summaries of all of the commands on the general help page. Returns only a blank line by default, preceded by a note on the `help` command when it is available.
+     *
+     * @param rightMargin The character column after which CommandRunner will wrap the return value. Useful here for overriding default wrapping behavior.
+     * @returns the text that ends the general help.
+     */
+    
+    getHelpTrailer(rightMargin: number): string {
+        if (this.hasHelpCommand())
+            return "\n"+ this.catalog.format('help.trailer') +"\n\n";
+        return "\n";
+    }
+    
+    /**
+     * Listens for SIGINT and SIGTERM while the command of a run is performing, as configured via `handleSignals`. The first signal writes a notice to stderr and cancels the run's Cancellation. A subsequent signal exits the process immediately, with the exit code conventional for the signal.
+     *
+     * @returns a function that stops listening for the signals.
+     */
+    
+    listenForSignals(): () => void {
+        const listeners = CANCEL_SIGNALS.map(signal => () => {
+            if (this.cancellation.isCancelled())
+                process.exit(SIGNAL_EXIT_CODES[signal]);
+            this.streams.stderr.write(
+                    "\n"+ this.catalog.format('notice.cancelling') +"\n");
+            this.cancellation.cancel(signal);
+        });
+        CANCEL_SIGNALS.forEach((signal, i) => process.on(signal, listeners[i]));
+        return () => {
+            CANCEL_SIGNALS.forEach((signal, i) =>
+                    process.removeListener(signal, listeners[i]));
+        };
+    }
+    
+    /**
+     * Runs the cleanups registered for the current run via `addCleanup()`, in the reverse order of registration, and then discards them. A cleanup that fails does not prevent the others from running; its error is reported to stderr.
+     *
+     * @returns a promise that resolves once all of the cleanups have completed.
+     */
+    
+    async runCleanups(): Promise<void> {
+        const cleanups = this.cleanups.reverse();
+        this.cleanups = [];
+        for (const cleanup of cleanups) {
+            try {
+                await cleanup();
+            }
+            catch (err) {
+                this.getLogger().warn("%s",
+                        this.catalog.format('notice.cleanup-failed', {
+                            message: (err instanceof Error ?
+                                    this.getErrorMessage(err) : String(err))
+                        }));
+            }
+        }
+    }
+
+    //// RESERVED METHODS /////////////////////////////////////////////////////
+    // these methods are reserved for use by the framework
+    
+    async _run(argv: string[], cancellation?: Cancellation)
+        : Promise<CommandRunner.Outcome>
+    {
+        // a run within another run, as via invoke() or a CommandShell that
+        // a command starts, shares the outer run's cancellation unless
+        // given its own, as CommandShell gives each command line, leaves
+        // signal handling to the outer run, and restores the outer run's
+        // state when done
+        const nested = this.running;
+        const saved = {
+            cancellation: this.cancellation,
+            globals: this.globals,
+            origins: this.origins,
+            outputFormat: this.outputFormat,
+            outputFormatter: this.outputFormatter,
+            logLevel: this.logLevel,
+            dryRun: this.dryRun,
+            cleanups: this.cleanups
+        };
+        this.running = true;
+        if (cancellation)
+            this.cancellation = cancellation;
+        else if (!nested)
+            this.cancellation = new Cancellation();
+        try {
+            return await this._runCommandLine(argv, nested);
+        }
+        finally {
+            this.running = nested;
+            if (nested) {
+                this.cancellation = saved.cancellation;
+                this.globals = saved.globals;
+                this.origins = saved.origins;
+                this.outputFormat = saved.outputFormat;
+                this.outputFormatter = saved.outputFormatter;
+                this.logLevel = saved.logLevel;
+                this.dryRun = saved.dryRun;
+                this.cleanups = saved.cleanups;
+            }
+        }
+    }
+
+    async _runCommandLine(argv: string[], nested: boolean)
+        : Promise<CommandRunner.Outcome>
+    {
+        // Create basic minimist configuration options for all commands.
+        
+        const configOptions = { boolean: ['h'], alias: { h: 'help' } };
+        const outcome: CommandRunner.Outcome = {
+            spec: null, command: null, args: null, helpShown: false
+        };
+        let args: Minimist.ParsedArgs; // output of minimist, further processed
+        let command: NamedCommand|null = null;
+        const context: CommandRunner.HookContext = {
+            argv: [], spec: null, command: null, args: null
+        };
+        
+        this.outputFormat = (this.structuredOutput ?
+                findOutputFormat(argv) : 'text');
+        this.outputFormatter = null;
+        this.cleanups = [];
+        this.logLevel = 'warn';
+        this.dryRun = false;
+        let stopListening = () => {}; // stops listening for signals
+        const reportExtraNext = () => {
+            this.getLogger().warn("%s",
+                    this.catalog.format('notice.extra-next'));
+        };
+        try {
+            
+            // Answer the hidden commands that support shell completion.
+            
+            if (argv[0] === Completion.COMMAND) {
+                const words = argv.slice(argv[1] === '--' ? 2 : 1);
+                const completions = await this.complete(words);
+                this.streams.stdout.write(
+                        completions.map(c => c +"\n").join(''));
+                return outcome;
+            }
+            if (argv[0] === Completion.SCRIPT_COMMAND) {
+                const shell = <Completion.Shell>argv[1];
+                if (Completion.SHELLS.indexOf(shell) < 0) {
+                    throw new Errors.CommandUsageError({
+                        id: 'error.invalid-shell',
+                        params: { shells: Completion.SHELLS.join(', ') }
+                    });
+                }
+                this.streams.stdout.write(this.getCompletionScript(shell,
+                        argv[2] || this.toolName ||
+                            Path.basename(process.argv[1])));
+                return outcome;
+            }
+            
+            // Answer the hidden command that generates documentation.
+            
+            if (argv[0] === DocGenerator.COMMAND) {
+                const format = <DocGenerator.Format>argv[1];
+                if (DocGenerator.FORMATS.indexOf(format) < 0 || !argv[2]) {
+                    throw new Errors.CommandUsageError({
+                        id: 'error.docs-usage',
+                        params: {
+                            usage: DocGenerator.COMMAND +" <"+
+                                DocGenerator.FORMATS.join('|') +
+                                "> <directory> [programName]"
+                        }
+                    });
+                }
+                const filePaths = new DocGenerator(this, {
+                    programName: argv[3] || this.toolName ||
+                            Path.basename(process.argv[1])
+                }).write(format, argv[2]);
+                this.streams.stdout.write(filePaths.map(filePath =>
+                        "wrote "+ filePath +"\n").join(''));
+                return outcome;
+            }
+            
+            // Show help for the commands that follow the help command,
+            // which may follow global options.
+            
+            let helpIndex = 0;
+            while (helpIndex < argv.length && argv[helpIndex][0] === '-') {
+                const count = this.countGlobalOptionArgs(argv, helpIndex);
+                if (count === 0)
+                    break;
+                helpIndex += count;
+            }
+            if (this.hasHelpCommand() && helpIndex < argv.length &&
+                    argv[helpIndex].toLowerCase() === 'help')
+            {
+                argv = argv.slice(0, helpIndex)
+                        .concat(argv.slice(helpIndex + 1), '--help');
+            }
+            
+            // Find the named command, if any. The command must be the first
+            // argument other than global options, and each command group
+            // must be followed by the name of one of its subcommands.
+            
+            let specs = this.commandSpecs;
+            let commandSpec: CommandSpec|null = null;
+            let argIndex = 0;
+            const globalArgs: string[] = []; // global options among names
+            while (argIndex < argv.length &&
+                    (commandSpec === null || commandSpec.hasSubcommands()))
+            {
+                if (argv[argIndex][0] === '-') {
+                    const count = this.countGlobalOptionArgs(argv, argIndex);
+                    if (count === 0)
+                        break;
+                    globalArgs.push(...argv.slice(argIndex, argIndex + count));
+                    argIndex += count;
+                    continue;
+                }
+                const commandName = String(argv[argIndex]).toLowerCase();
+                const spec = this.findCommand(specs, commandName);
+                if (spec === null) {
+                    throw this.getUnrecognizedCommandError(specs, commandName,
+                            commandSpec);
+                }
+                commandSpec = spec;
+                specs = spec._children;
+                ++argIndex;
+            }
+            outcome.spec = commandSpec;
+            const commandArgs = globalArgs.concat(argv.slice(argIndex));
+            this.globals = {};
+            this.globalSchema.addTo(configOptions);
+            
+            // Load a named command.
+            
+            if (commandSpec !== null && !commandSpec.hasSubcommands()) {
+                command = commandSpec.createCommand();
+                command._init(this, commandSpec);
+                outcome.command = command;
+                commandSpec._optionSchema.addTo(configOptions);
+                command.addOptions(configOptions);
+            }
+            
+            // Load the default, unnamed command.
+            
+            else if (commandSpec === null) {
+                this.toolSchema.addTo(configOptions);
+                this.addDefaultOptions(configOptions);
+                // allows MultiCommand to have more specific method names
+            }
+            
+            context.argv = commandArgs;
+            context.spec = commandSpec;
+            context.command = command;
+            await callHooks(this.hooks, 'beforeParse', context);
+            args = this.parseCommandLine(context.argv, configOptions);
+            
+            // A command group lacking a subcommand can only provide help.
+            
+            if (commandSpec !== null && commandSpec.hasSubcommands() &&
+                    !args.help)
+            {
+                throw new Errors.CommandUsageError({
+                    id: 'error.missing-subcommand',
+                    params: { path: commandSpec.getPath().toLowerCase() }
+                });
+            }
+            
+            // Show help if requested. (Additional args likely left out.)
+            
+            if (args.help) {
+                const width = this.getHelpWidth();
+                let text = (command ? command.getHelp(width) :
+                        commandSpec ? this.getGroupHelp(commandSpec, width) :
+                            this.getHelp(width));
+                await this.writeHelp(text,
+                        this.colorOption ? args.color : undefined);
+                outcome.helpShown = true;
+                return outcome;
+            }
+            if (commandSpec === null && this.version !== null && args.version) {
+                this.streams.stdout.write((this.toolName ||
+                        Path.basename(process.argv[1])) +' '+ this.version +"\n");
+                outcome.helpShown = true;
+                return outcome;
+            }
+    
+            // Parse the arguments, throwing CommandUsageError when a problem
+            // is found with the user input.
+            
+            args._ = args._.map(arg => {
+                return String(arg); // minimist shouldn't decide non-option types
+            });
+            const applyOptions: OptionSchema.ApplyOptions = {
+                // only the user at hand may confirm or skip a command
+                commandLineOnly: ['yes', 'dry-run']
+            };
+            if (this.toolName !== null) {
+                applyOptions.envPrefix = toEnvPrefix(this.toolName);
+                applyOptions.sources = this.getConfigSources(commandSpec);
+            }
+            this.origins = this.globalSchema.apply(args, applyOptions);
+            this.globalSchema.getNames().forEach(name => {
+                this.globals[name] = args[name];
+            });
+            if (this.structuredOutput)
+                this.outputFormat = (args.json ? 'json' : args.format);
+            if (this.verbosityOptions) {
+                // flags following the command that the command declares are
+                // the command's own, as with 'grep -v'
+                const verbosity = (this.origins.verbose === 'command line' ?
+                        countVerbosity(globalArgs, null) + countVerbosity(
+                            context.argv.slice(globalArgs.length), command ?
+                                command.getSpec()._optionSchema : null) :
+                        args.verbose ? 1 : 0);
+                this.logLevel = (args.quiet ? 'error' : toLogLevel(verbosity));
+            }
+            
+            // Warn of running a deprecated command or command group.
+            
+            for (let spec = commandSpec; spec !== null; spec = spec._parent) {
+                if (spec._deprecated) {
+                    const path = spec.getPath().toLowerCase();
+                    this.getLogger().warn("%s", this.catalog.format(
+                            spec._deprecationNote === null ?
+                                'notice.deprecated-command' :
+                                'notice.deprecated-command-note',
+                            { path, note: spec._deprecationNote || '' }));
+                }
+            }
+            
+            if (command) {
+                Object.assign(this.origins,
+                        command.getSpec()._optionSchema.apply(args, applyOptions));
+                command.getSpec()._assignPositionals(args);
+                command.parseArgs(args);
+            }
+            else
+                this.parseDefaultArgs(args);
+            if (args._.length > 0)
+                throw new Errors.UnexpectedArgError(args._[0]);
+            outcome.args = args;
+            if (this.debugging)
+                this.streams.stderr.write(this.getOriginsReport(args));
+            context.args = args;
+            await callHooks(this.hooks, 'afterParse', context);
+            this.dryRun = !!args['dry-run'];
+            
+            // Confirm running a destructive command, failing when the user
+            // declines or cannot be asked.
+            
+            if (command && command.getSpec()._destructive && !this.dryRun &&
+                    !args.yes && !await this.confirmCommand(command.getSpec(),
+                        args))
+            {
+                throw new Errors.CommandCancelledError(null,
+                        { hint: { id: 'hint.rerun-dry-run' } });
+            }
+            
+            // Perform the command, whether it calls next() or returns a
+            // promise, and route rejections as with any other error.
+    
+            await callHooks(this.hooks, 'beforeCommand', context);
+            if (this.handleSignals && !nested)
+                stopListening = this.listenForSignals();
+            if (command) {
+                const named = command;
+                outcome.result = await settleCancellable(this.cancellation,
+                        callCommand(next => named.doCommand(args, next),
+                            named.doCommand.length >= 2, reportExtraNext));
+            }
+            else {
+                await settleCancellable(this.cancellation,
+                        callCommand(next => this.doDefaultCommand(args, next),
+                            this.doDefaultCommand.length >= 2,
+                            reportExtraNext));
+            }
+            stopListening();
+            await callHooks(this.hooks, 'afterCommand', context);
+        }
+        catch(err) {
+            await this.runCleanups();
+            stopListening();
+            for (const hooks of this.hooks) {
+                if (hooks.onError) {
+                    try {
+                        await hooks.onError(context, err);
+                    }
+                    catch (hookErr) {
+                        this.getLogger().warn("%s", this.catalog.format(
+                                'notice.error-hook-failed', {
+                                    message: (hookErr instanceof Error ?
+                                            this.getErrorMessage(hookErr) :
+                                            String(hookErr))
+                                }));
+                    }
+                }
+            }
+            if (!(err instanceof Errors.CommandError))
+                throw err;
+            outcome.error = err;
+        }
+        return outcome;
+    }
+}
+
+//// SUPPORT CLASSES //////////////////////////////////////////////////////////
+
+class NullStream extends Stream.Writable
+{
+    _write(chunk: any, encoding: string, callback: (err?: Error) => void) {
+        callback(); // discards the output
+    }
+}
+
+//// SUPPORT FUNCTIONS ////////////////////////////////////////////////////////
+
+function getHelpSyntax(spec: CommandSpec, rightMargin: number): string {
+    // the syntax of the command in help, beginning with its path
+    return OptionHelp.wrapText(spec.getPath().toUpperCase() +
+            spec._syntax.substr(spec._name.length), rightMargin, 4);
+}
+
+function checkGlobalNames(schema: OptionSchema, specs: CommandSpec[]): void {
+    // throws if a command expects global options that the runner lacks
+    specs.forEach(spec => {
+        spec._globalNames.forEach(name => {
+            if (schema.getDefinition(name) === null) {
+                throw new Error(`command '${spec.getPath()}' expects global `+
+                        `option '${name}', which is not declared`);
+            }
+        });
+        checkGlobalNames(schema, spec._children);
+    });
+}
+
+function keepLiteralNegations(argv: string[], parser: ArgParser): string[] {
+    // gives a value to each boolean option whose name begins with 'no-', as
+    // in --no-input, so that minimist doesn't take it for a negation
+    const end = argv.indexOf('--');
+    return argv.map((arg, i) =>
+            (/^--no-[^=]+$/.test(arg) && (end < 0 || i < end) &&
+                parser.isBoolean(arg.substr(2)) ? arg +'=true' : arg));
+}
+
+/**
+ * Returns a promise that settles as the given promise of a command settles, except that should the command have been cancelled, the returned promise rejects with a CommandCancelledError once the command stops, whether the command succeeded or failed. The error of a command failing otherwise becomes the cause of the CommandCancelledError.
+ */
+
+async function settleCancellable(
+    cancellation: Cancellation,
+    promise: Promise<any>
+): Promise<any> {
+    let result: any;
+    try {
+        result = await promise;
+    }
+    catch (err) {
+        if (!cancellation.isCancelled() ||
+                err instanceof Errors.CommandCancelledError)
+            throw err;
+        throw new Errors.CommandCancelledError(cancellation.getSignal(),
+                { cause: err });
+    }
+    if (cancellation.isCancelled())
+        throw new Errors.CommandCancelledError(cancellation.getSignal());
+    return result;
+}
+
+/**
+ * Calls a command method that either calls a `next()` callback, returns a promise of any result, or returns any result synchronously, and returns a promise that settles when the command completes, resolving to any result. A method that declares the `next` parameter completes when it calls `next()`, unless it returns a promise first, so that it may return other values, such as streams. Calling `next()` more than once is a programming error, which `onExtraNext()` reports without disturbing the caller of `next()`. Should the process run out of work while the command has yet to complete, as when a command never calls `next()`, the promise rejects rather than letting the process exit with the run unfinished.
+ */
+
+function callCommand(
+    method: (next: (err?: Error) => void) => any,
+    takesNext: boolean, // whether the method declares the next parameter
+    onExtraNext: () => void
+): Promise<any> {
+    return new Promise<any>((resolve, reject) => {
+        let done = false;
+        const onBeforeExit = () => {
+            // nothing remains that could complete the command
+            finish(new Error("command completed without calling next()"));
+        };
+        const finish = (err: Error|null, result?: any) => {
+            done = true;
+            process.removeListener('beforeExit', onBeforeExit);
+            if (err)
+                reject(err);
+            else
+                resolve(result);
+        };
+        process.on('beforeExit', onBeforeExit);
+        let returned: any;
+        try {
+            returned = method((err?: Error) => {
+                if (done)
+                    onExtraNext();
+                else
+                    finish(err || null);
+            });
+        }
+        catch (err) {
+            if (!done)
+                finish(err);
+            return;
+        }
+        if (returned && typeof returned.then === 'function') {
+            returned.then((result: any) => {
+                if (!done)
+                    finish(null, result);
+            }, (err: Error) => {
+                if (!done)
+                    finish(err);
+            });
+        }
+        else if (!takesNext && !done)
+            finish(null, returned);
+    });
+}
+
+/**
+ * Returns the output format that a command line selects via `--format` or `--json`, for reporting errors that occur before the global options are validated. Returns 'text' when the command line selects no valid format.
+ */
+
+function findOutputFormat(argv: string[]): OutputFormatter.Format {
+    let format: OutputFormatter.Format = 'text';
+    for (let i = 0; i < argv.length && argv[i] !== '--'; ++i) {
+        const matches = argv[i].match(/^--format(=(.*))?$/);
+        const value = (matches ? (matches[1] ? matches[2] : argv[i + 1]) :
+                argv[i] === '--json' ? 'json' : undefined);
+        if (value !== undefined && OutputFormatter.isFormat(value))
+            format = value;
+    }
+    return format;
+}
+
+/**
+ * Returns the command line arguments that provide the given values of a command's options and positional arguments. Positional arguments follow `--`, so that they are never taken for options.
+ */
+
+function toArgv(spec: CommandSpec, values: CommandRunner.InvokeArgs): string[] {
+    const argv: string[] = [];
+    const positionalNames = spec._positionals.map(positional =>
+            positional.name);
+    Object.keys(values).forEach(name => {
+        if (name === '_' || positionalNames.indexOf(name) >= 0)
+            return;
+        const flag = (name.length === 1 ? '-' : '--') + name;
+        (Array.isArray(values[name]) ? values[name] : [values[name]])
+            .forEach((value: any) => {
+                if (value === true)
+                    argv.push(flag);
+                else if (value === false)
+                    argv.push('--no-'+ name);
+                else if (value !== undefined && value !== null)
+                    argv.push(flag +'='+ String(value));
+            });
+    });
+
+    let positionals: string[] = [];
+    positionalNames.concat('_').forEach(name => {
+        if (values[name] !== undefined && values[name] !== null)
+            positionals = positionals.concat(values[name]).map(String);
+    });
+    return (positionals.length === 0 ? argv : argv.concat('--', positionals));
+}
+
+/**
+ * Writes text through the pager that the PAGER environment variable names, or through `less` when not set, returning a promise that resolves to whether the pager ran.
+ */
+
+function pageText(text: string): Promise<boolean> {
+    return new Promise<boolean>(resolve => {
+        const command = process.env.PAGER || DEFAULT_PAGER;
+        const pager = ChildProcess.spawn(command, [], {
+            shell: true,
+            stdio: ['pipe', 'inherit', 'inherit'],
+            env: Object.assign({ LESS: DEFAULT_LESS }, process.env)
+        });
+        pager.on('error', () => resolve(false));
+        pager.on('exit', code => resolve(code !== 127)); // 127: not found
+        pager.stdin.on('error', () => {}); // the user may quit the pager early
+        pager.stdin.end(text);
+    });
+}
+
+/**
+ * Returns the number of times the command line provides `-v` or `--verbose`, counting each `v` of a cluster of single-letter flags, as in `-vv`, except for the flags that the command's own options declare.
+ */
+
+function countVerbosity(
+    argv: string[],
+    commandSchema: OptionSchema|null
+): number {
+    const isGlobal = (name: string) =>
+            (commandSchema === null || commandSchema.getPrimaryName(name) === null);
+    let count = 0;
+    for (let i = 0; i < argv.length && argv[i] !== '--'; ++i) {
+        if (argv[i] === '--verbose' && isGlobal('verbose'))
+            ++count;
+        else if (/^-v+$/.test(argv[i]) && isGlobal('v'))
+            count += argv[i].length - 1;
+    }
+    return count;
+}
+
+/**
+ * Returns the least severe level of message to log for a number of `-v` flags.
+ */
+
+function toLogLevel(verbosity: number): Logger.Level {
+    return (verbosity === 0 ? 'warn' : verbosity === 1 ? 'info' : 'debug');
+}
+
+/**
+ * Calls the hooks registered for a phase of a run, in order, awaiting each.
+ */
+
+async function callHooks(
+    hooks: CommandRunner.Hooks[],
+    phase: 'beforeParse'|'afterParse'|'beforeCommand'|'afterCommand',
+    context: CommandRunner.HookContext
+): Promise<void> {
+    for (const hook of hooks) {
+        const method = hook[phase];
+        if (method)
+            await method(context);
+    }
+}
+
+function toEnvPrefix(toolName: string): string {
+    return toolName.toUpperCase().replace(/[^A-Z0-9]+/g, '_') +'_';
+}
+
+function readConfigFile(filePath: string): { [key: string]: any } {
+    let config: any;
+    try {
+        config = JSON.parse(FS.readFileSync(filePath, 'utf8'));
+    }
+    catch (err) {
+        throw new Errors.CommandError({
+            id: 'error.invalid-config-file',
+            params: { path: filePath }
+        }, { cause: err });
+    }
+    if (!isObject(config)) {
+        throw new Errors.CommandError(
+                { id: 'error.config-not-object', params: { path: filePath } });
+    }
+    return config;
+}
+
+function isObject(value: any): boolean {
+    return (typeof value === 'object' && value !== null &&
+            !Array.isArray(value));
+}
+
+function getMessagePrefix(spec: CommandSpec): string {
+    // prefix of the ids of the command's messages in the catalog
+    return 'command.'+ spec.getPath().toLowerCase().replace(/ /g, '.') +'.';
+}
+
+function quoteList(names: string[]): string {
+    const quoted = names.map(name => "'"+ name +"'");
+    if (quoted.length < 3)
+        return quoted.join(' or ');
+    return quoted.slice(0, -1).join(', ') +', or '+ quoted[quoted.length - 1];
 }
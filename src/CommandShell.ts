@@ -0,0 +1,228 @@
+
+import FS = require("fs");
+import Readline = require("readline");
+import { Cancellation } from './Cancellation';
+import { CommandRunner } from './CommandRunner';
+import { CommandUtil } from './CommandUtil';
+import { LineReader } from './LineReader';
+
+//// CONSTANTS ////////////////////////////////////////////////////////////////
+
+const DEFAULT_PROMPT = '> '; // default prompt for each command line
+const DEFAULT_HISTORY_SIZE = 100; // default number of lines of history
+const DEFAULT_EXIT_COMMANDS = ['exit', 'quit']; // default commands that exit
+
+//// TYPES ////////////////////////////////////////////////////////////////////
+
+export namespace CommandShell {
+    export interface Options {
+        prompt?: string; // prompt preceding each command line
+        historyFile?: string; // file in which to persist the history
+        historySize?: number; // maximum number of lines of history to keep
+        exitCommands?: string[]; // commands that exit the shell
+    }
+}
+
+// options of readline that the installed Node typings may lack
+interface ShellReadLineOptions extends Readline.ReadLineOptions {
+    history?: string[]; // initial lines of history, most recent first
+}
+
+/******************************************************************************
+CommandShell is an interactive shell that repeatedly prompts for a command line and runs it through the same dispatch as `CommandRunner#run()`. It splits each line into arguments with shell-like quoting, reports errors without exiting, keeps a history of command lines, and completes command names and options on tab. Commands that prompt the user read their replies from the shell's input. Each command line runs with its own Cancellation (see `CommandRunner#getCancellation()`), which Ctrl-C cancels while the command line runs; otherwise Ctrl-C clears the line being entered. The shell ends when the user enters an exit command or ends the input.
+******************************************************************************/
+
+export class CommandShell
+{
+    protected runner: CommandRunner; // runner that performs the commands
+    protected prompt: string; // prompt preceding each command line
+    protected historyFile: string|null; // file persisting the history
+    protected historySize: number; // maximum lines of history
+    protected exitCommands: string[]; // commands that exit the shell
+
+    protected history: string[] = []; // command lines, most recent first
+    protected readline: Readline.ReadLine|null = null; // the line editor
+    protected pendingLines: string[] = []; // lines entered while running
+    protected running = false; // whether a command line is running
+    protected closed = false; // whether the input has ended
+    protected finish: (() => void)|null = null; // resolves run()
+    protected pendingReply: ((line: string|null) => void)|null = null;
+
+    /**
+     * @param runner The CommandRunner that performs the commands, using the runner's streams for all input and output.
+     * @param options Optional configuration, accepting `prompt` to precede each command line (defaults to "> "), `historyFile` naming a file in which to persist the history across sessions, `historySize` limiting the lines of history kept, both in memory and in the history file (defaults to 100), and `exitCommands` listing the commands that exit the shell (defaults to "exit" and "quit").
+     */
+
+    constructor(runner: CommandRunner, options?: CommandShell.Options) {
+        options = options || {};
+        this.runner = runner;
+        this.prompt = (options.prompt === undefined ? DEFAULT_PROMPT :
+                options.prompt);
+        this.historyFile = options.historyFile || null;
+        this.historySize = options.historySize || DEFAULT_HISTORY_SIZE;
+        this.exitCommands = options.exitCommands || DEFAULT_EXIT_COMMANDS;
+    }
+
+    /**
+     * Runs the shell until the user exits it or the input ends.
+     *
+     * @returns a promise that resolves when the shell ends.
+     */
+
+    run(): Promise<void> {
+        this.loadHistory();
+        const streams = this.runner.getStreams();
+        const terminal = (CommandUtil.isTTY(streams.stdin) &&
+                CommandUtil.isTTY(streams.stdout));
+        const options: ShellReadLineOptions = {
+            input: streams.stdin,
+            output: streams.stdout,
+            completer: (line: string, callback: any) =>
+                    this.completeLine(line, callback),
+            terminal,
+            history: this.history.slice(),
+            historySize: this.historySize
+        };
+        const readline = Readline.createInterface(options);
+        readline.setPrompt(this.prompt);
+        this.readline = readline;
+
+        readline.on('line', (line: string) => {
+            this.pendingLines.push(line);
+            if (!this.running)
+                this.runPendingLines();
+        });
+        readline.on('SIGINT', () => {
+            if (this.running) {
+                // cancels only the command line running, not the shell
+                if (!this.runner.getCancellation().isCancelled()) {
+                    streams.stderr.write("\n"+ this.runner.getMessageCatalog()
+                            .format('notice.cancelling-line') +"\n");
+                    this.runner.getCancellation().cancel('SIGINT');
+                }
+                return;
+            }
+            streams.stdout.write("^C\n");
+            readline.write('', { ctrl: true, name: 'u' }); // clear the line
+            readline.prompt();
+        });
+        readline.on('close', () => {
+            this.closed = true;
+            if (this.pendingReply)
+                this.pendingReply(null);
+            if (!this.running)
+                this.end();
+        });
+
+        LineReader.for(streams.stdin).setDelegate(prompt => {
+            return new Promise<string|null>(resolve => {
+                if (this.pendingLines.length > 0) {
+                    // lines entered ahead of the prompt answer it
+                    streams.stdout.write(prompt);
+                    return resolve(this.pendingLines.shift()!);
+                }
+                if (this.closed)
+                    return resolve(null);
+                this.pendingReply = resolve;
+                readline.question(prompt, reply => {
+                    this.pendingReply = null;
+                    resolve(reply);
+                });
+            });
+        });
+
+        return new Promise<void>(resolve => {
+            this.finish = resolve;
+            readline.prompt();
+        });
+    }
+
+    /**
+     * Runs a single command line entered into the shell, reporting any error to stderr. Override this method to customize the handling of command lines.
+     *
+     * @param line The command line as entered.
+     * @returns a promise that resolves when the command line has run.
+     */
+
+    async runLine(line: string): Promise<void> {
+        const streams = this.runner.getStreams();
+        let error: Error|undefined;
+        try {
+            const argv = CommandUtil.splitCommandLine(line);
+            if (argv.length === 0)
+                return;
+            error = (await this.runner._run(argv, new Cancellation())).error;
+        }
+        catch (err) {
+            error = err;
+        }
+        if (error)
+            streams.stderr.write(this.runner.formatError(error, false));
+    }
+
+    //// PROTECTED METHODS ////////////////////////////////////////////////////
+
+    protected async runPendingLines(): Promise<void> {
+        this.running = true;
+        while (this.pendingLines.length > 0) {
+            const line = this.pendingLines.shift()!;
+            if (this.exitCommands.indexOf(line.trim()) >= 0) {
+                this.closed = true;
+                this.readline!.close();
+                break;
+            }
+            if (line.trim() !== '')
+                this.saveHistory(line);
+            await this.runLine(line);
+        }
+        this.running = false;
+        if (this.closed)
+            this.end();
+        else
+            this.readline!.prompt();
+    }
+
+    protected completeLine(
+        line: string,
+        callback: (err: any, result: Readline.CompleterResult) => void
+    ): void {
+        const words = CommandUtil.splitCommandLine(line, true);
+        const partial = line.substr(line.search(/\S*$/));
+        this.runner.complete(words).then(completions => {
+            callback(null, [completions, partial]);
+        }, err => callback(err, [[], partial]));
+    }
+
+    protected loadHistory(): void {
+        if (this.historyFile === null || !FS.existsSync(this.historyFile))
+            return;
+        const lines = FS.readFileSync(this.historyFile, 'utf8').split("\n")
+                .filter(line => line !== '');
+        this.history.splice(0, this.history.length,
+                ...lines.reverse().slice(0, this.historySize));
+    }
+
+    protected saveHistory(line: string): void {
+        // rewrites the file so that it keeps only the most recent lines
+        this.history.unshift(line);
+        this.history.splice(this.historySize);
+        if (this.historyFile === null)
+            return;
+        try {
+            FS.writeFileSync(this.historyFile, this.history.slice().reverse()
+                    .map(line => line +"\n").join(''));
+        }
+        catch (err) {
+            // history is a convenience and needn't interrupt the shell
+        }
+    }
+
+    protected end(): void {
+        LineReader.for(this.runner.getStreams().stdin).setDelegate(null);
+        if (this.finish) {
+            const finish = this.finish;
+            this.finish = null;
+            finish();
+        }
+    }
+}
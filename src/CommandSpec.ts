@@ -1,26 +1,157 @@
 
+import Minimist = require("minimist");
 import { NamedCommand } from './NamedCommand';
+import { OptionSchema } from './OptionSchema';
+import * as Errors from './errors';
+
+//// TYPES ////////////////////////////////////////////////////////////////////
+
+export namespace CommandSpec {
+    export interface Options<
+        D extends OptionSchema.Definitions = OptionSchema.Definitions,
+        P extends Positionals = Positionals,
+        G extends OptionSchema.Definitions = OptionSchema.Definitions
+    > {
+        options?: D; // declared command line options
+        aliases?: string[]; // alternate names by which to run the command
+        description?: string; // description of the command for its help
+        examples?: Example[]; // example uses of the command for its help
+        seeAlso?: string[]; // related commands or references for its help
+        hidden?: boolean; // whether to leave the command out of listings
+        deprecated?: boolean|string; // whether deprecated, or why
+        destructive?: boolean|string; // whether destructive, or confirmation
+        positionals?: boolean|P; // whether to parse the syntax's arguments
+        globalOptions?: G; // global options of the runner that args include
+    }
+
+    // kinds of the positional arguments that the syntax declares, by name
+    export interface Positionals {
+        [name: string]: 'required'|'optional'|'variadic';
+    }
+
+    // type of the value of a positional argument, given its kind
+    export type PositionalValue<K> =
+        K extends 'variadic' ? string[] :
+        K extends 'optional' ? string|undefined : string;
+
+    // types of the values of positional arguments, keyed by argument name
+    export type PositionalValues<P> = { [K in keyof P]: PositionalValue<P[K]> };
+
+    // definitions of the options that destructive commands receive
+    export type Safeguards = {
+        'dry-run': { type: 'boolean' },
+        'yes': { type: 'boolean' }
+    };
+
+    // option definitions of a command that is destructive if X is not false
+    export type WithSafeguards<D, X> = X extends false ? D :
+            D & Pick<Safeguards, Exclude<keyof Safeguards, keyof D>>;
+
+    // arguments of a command, given its option definitions, the kinds of its
+    // positional arguments, and the definitions of the global options
+    export type Args<D = {}, P = {}, G = {}> = OptionSchema.Values<D> &
+            PositionalValues<P> & OptionSchema.Values<G> & { _: string[] };
+
+    // syntax, summary, and options of a command whose arguments are of type A
+    export interface Declaration<A> {
+        syntax: string; // illustration of the command's argument syntax
+        summary: string; // single line summarizing the command
+        options: Options; // configuration of the command
+        args?: A; // never assigned; only carries the type of the arguments
+    }
+
+    // type of the arguments of a command having the given declaration
+    export type ArgsOf<T> = T extends Declaration<infer A> ? A : never;
+
+    // syntax parameter of commands whose arguments are of type A, which is
+    // never when A is typed, as typed commands must be declared via define()
+    export type UntypedSyntax<A> =
+            Minimist.ParsedArgs extends A ? string : never;
+
+    export interface Example {
+        command: string; // example command line
+        description?: string; // explanation of what the command line does
+    }
+
+    export interface Positional {
+        name: string; // name of the argument, as given in the syntax
+        required: boolean; // whether the argument must be provided
+        variadic: boolean; // whether the argument collects all remaining
+    }
+}
+
+//// CONFIGURATION ////////////////////////////////////////////////////////////
+
+// name of a syntax term standing for options, as in [options]
+const OPTIONS_TERM_REGEX = /^([a-z]+-)?options$/i;
 
 /**
  * CommandSpec is an abstract base class for specifying and creating named commands. It includes a factory method for creating commands so that a single configuration of CommandRunner can be run multiple times.
+ *
+ * The type parameter `A` is the type of the parsed arguments that the command receives, which defaults to minimist's untyped arguments. To check the command's use of its arguments at compile time, declare the command via `CommandSpec.define()`, which derives the type of the arguments from the declared options, positional arguments, and global options, and parameterize both the CommandSpec and its NamedCommand with `CommandSpec.ArgsOf<typeof declaration>`. The CommandSpec then passes the declaration to its base constructor, which only accepts a declaration providing arguments of type `A`. The type parameter `R` is the type of the result that the command's `doCommand()` provides, if any.
  */
 
-export abstract class CommandSpec
+export abstract class CommandSpec<A = Minimist.ParsedArgs, R = any>
 {
     _name: string; // name of the command; inferred from syntax
     _normName: string; // name of the command in lowercase
+    _normAliases: string[]; // alternate names of the command in lowercase
     _syntax: string; // illustration of command's argument syntax
     _summary: string; // single line summarizing command
     _firstOfGroup: boolean; // whether command is first of a group of commands
+    _groupHeading: string|null; // heading of the group this command begins
+    _parent: CommandSpec<any>|null; // spec of the command group containing this one
+    _children: CommandSpec[]; // specs of subcommands, when a command group
+    _optionSchema: OptionSchema; // the command's declared options
+    _positionals: CommandSpec.Positional[]; // args declared by the syntax
+    _description: string|null; // description of the command for its help
+    _examples: CommandSpec.Example[]; // example uses of the command
+    _seeAlso: string[]; // related commands or references
+    _hidden: boolean; // whether to leave the command out of listings
+    _deprecated: boolean; // whether the command is deprecated
+    _deprecationNote: string|null; // explanation of the deprecation
+    _destructive: boolean; // whether the command requires confirmation
+    _confirmation: string|null; // question confirming a destructive run
+    _globalNames: string[]; // names of the global options that args include
     
     /**
-     * @param syntax Illustration of the command's argument syntax. The first term of this string is the command name. The command name must neither begin with a dash nor contain spaces. The name may be in any letter case, but a user may provide the name in any letter case to run the command.
+     * @param syntax Illustration of the command's argument syntax. The first term of this string is the command name. The command name must neither begin with a dash nor contain spaces. The name may be in any letter case, but a user may provide the name in any letter case to run the command. The remaining terms illustrate the command's arguments. When the `positionals` option is enabled, they declare the command's positional (non-option) arguments: `<name>` declares a required argument, `[name]` declares an optional argument, and a name ending in `...`, as in `[name...]`, declares an argument that collects all remaining arguments into an array. Terms beginning with a dash, such as `[--force]`, and terms naming options, such as `[options]`, only illustrate options and are ignored.
      * @param summary A single line that summarizes the command, for display when providing help for all of the commands.
+     * @param options Optional configuration of the command, accepting the following properties:
+     *
+     * - `options`: The command line options of the command, keyed by option name. See OptionSchema for the properties of each option. CommandRunner coerces and validates these options before calling `NamedCommand#parseArgs()`, and the command's help lists them.
+     * - `aliases`: Alternate names by which the user may run the command, each subject to the same restrictions as the command name. Help lists the aliases with the command.
+     * - `description`: Description of the command, possibly of multiple paragraphs, which the command's help shows after the summary.
+     * - `examples`: Example uses of the command, each providing a `command` line and an optional `description`, which the command's help shows after the options.
+     * - `seeAlso`: Names of related commands or other references, which the command's help lists last.
+     * - `hidden`: Whether to leave the command out of the lists of commands in help, completion, suggestions, and documentation. The user may still run a hidden command by its full name. Defaults to false.
+     * - `deprecated`: Whether the command is deprecated, or a note explaining the deprecation, such as the command to use instead. Help marks deprecated commands, and running a deprecated command writes a warning to stderr. Defaults to false.
+     * - `destructive`: Whether the command makes changes that are hard to undo, or the question with which to ask the user to confirm running the command. A destructive command receives the options `--dry-run`, which the command checks via `NamedCommand#isDryRun()` to report what it would do without doing it, and `--yes`, which confirms the run without prompting, except where the command declares options of these names itself. Unless one of these options is given, CommandRunner asks the user to confirm before performing the command, and it refuses to run the command when the user cannot be asked. Help marks destructive commands. Defaults to false.
+     * - `positionals`: Whether CommandRunner parses the positional arguments that the syntax declares before calling `NamedCommand#parseArgs()`. CommandRunner removes the declared arguments from `args._`, assigns them to properties of `args` named for the arguments, and reports missing required arguments as CommandUsageErrors. Alternatively, the kind of each positional argument keyed by name, which must match the syntax: 'required' for `<name>`, 'optional' for `[name]`, and 'variadic' for `<name...>` or `[name...]`. `CommandSpec.define()` derives the types of the arguments from these kinds. Defaults to false, leaving all non-option arguments in `args._` for `parseArgs()`.
+     * - `globalOptions`: The global options of the CommandRunner whose values the command's arguments include, as declared for the runner. `CommandSpec.define()` derives the types of their values, and the runner refuses commands expecting global options that it does not declare. Defaults to none.
+     *
+     * Alternatively, the constructor takes a declaration of the command that `CommandSpec.define()` returns, which a CommandSpec having typed arguments must do.
      */
 
-    constructor(syntax: string, summary: string) {
+    constructor(declaration: CommandSpec.Declaration<A>);
+    constructor(
+        syntax: CommandSpec.UntypedSyntax<A>,
+        summary: string,
+        options?: CommandSpec.Options
+    );
+    constructor(
+        syntax: string|CommandSpec.Declaration<A>,
+        summary?: string,
+        options?: CommandSpec.Options
+    ) {
+        if (typeof syntax !== 'string') {
+            summary = syntax.summary;
+            options = syntax.options;
+            syntax = syntax.syntax;
+        }
+        options = options || {};
         this._syntax = syntax;
-        this._summary = summary;
+        this._summary = summary!;
         let matches = syntax.match(/[^ ]+/);
         if (!matches) {
             throw new Error(`'${syntax}' is missing a command name`);
@@ -31,6 +162,81 @@ export abstract class CommandSpec
                                 " cannot start with a dash");
         }
         this._normName = this._name.toLowerCase();
+        this._normAliases = (options.aliases || []).map(alias => {
+
+            if (alias === '' || alias[0] === '-' || alias.indexOf(' ') >= 0)
+                throw new Error(`invalid alias '${alias}' for '${this._name}'`);
+            return alias.toLowerCase();
+        });
+        this._groupHeading = null;
+        this._parent = null;
+        this._children = [];
+        this._destructive = !!options.destructive;
+        this._confirmation = (typeof options.destructive === 'string' ?
+                options.destructive : null);
+        this._optionSchema = new OptionSchema(this._destructive ?
+                addSafeguardOptions(options.options || {}) : options.options);
+        this._positionals = (options.positionals ?
+                parsePositionals(syntax) : []);
+        if (typeof options.positionals === 'object') {
+            const kinds = options.positionals;
+            if (this._positionals.length !== Object.keys(kinds).length ||
+                    this._positionals.some(positional =>
+                        kinds[positional.name] !== toKind(positional)))
+            {
+                throw new Error(`positional arguments of command '${
+                        this._name}' do not match syntax '${syntax}'`);
+            }
+        }
+        this._globalNames = Object.keys(options.globalOptions || {});
+        this._description = options.description || null;
+        this._examples = options.examples || [];
+        this._seeAlso = options.seeAlso || [];
+        this._hidden = options.hidden || false;
+        this._deprecated = !!options.deprecated;
+        this._deprecationNote = (typeof options.deprecated === 'string' ?
+                options.deprecated : null);
+        this._positionals.forEach(positional => {
+
+            if (this._optionSchema.getPrimaryName(positional.name) !== null) {
+                throw new Error(`argument '${positional.name}' of command '${
+                        this._name}' has the name of an option`);
+            }
+        });
+    }
+
+    /**
+     * Declares a command for passing to the constructor of a CommandSpec whose arguments are typed. The type of the declaration's arguments derives from the option definitions, the kinds of positional arguments, and the global options that the options declare, including `--dry-run` and `--yes` when the command is destructive. Declare the definitions in place or via `OptionSchema.define()` so that they retain their literal types.
+     *
+     * @param syntax Illustration of the command's argument syntax. See the constructor.
+     * @param summary A single line that summarizes the command.
+     * @param options Optional configuration of the command. See the constructor.
+     * @returns the declaration, whose arguments `CommandSpec.ArgsOf` provides.
+     */
+
+    static define<
+        D extends OptionSchema.Definitions = {},
+        P extends CommandSpec.Positionals = {},
+        G extends OptionSchema.Definitions = {},
+        X extends boolean|string = false
+    >(
+        syntax: string,
+        summary: string,
+        options?: CommandSpec.Options<D, P, G> & { destructive?: X }
+    ): CommandSpec.Declaration<
+            CommandSpec.Args<CommandSpec.WithSafeguards<D, X>, P, G>>
+    {
+        return { syntax, summary, options: options || {} };
+    }
+
+    /**
+     * Adds subcommands to this command, making this command a command group. May be called multiple times. When a command group is named on the command line, the next argument must name one of its subcommands, and the subcommand performs the command instead of this command. Subcommands may themselves be command groups, allowing for a tree of commands, such as `tool remote add <name>`. Subcommand names need only be unique among the subcommands of this command.
+     *
+     * @param group Group of subcommand specifications to add. Each group is considered related. Groups are spaced from other groups in help.
+     */
+
+    addCommands(group: CommandSpec[]): void {
+        CommandSpec._addGroup(this._children, group, this);
     }
 
     /**
@@ -41,6 +247,41 @@ export abstract class CommandSpec
         return this._name;
     }
 
+    /**
+     * Provides the alternate names of the command, in lowercase.
+     */
+
+    getAliases(): string[] {
+        return this._normAliases;
+    }
+
+    /**
+     * Indicates whether the command has the given name or alias, provided in lowercase.
+     */
+
+    hasName(normName: string): boolean {
+        return (normName === this._normName ||
+                this._normAliases.indexOf(normName) >= 0);
+    }
+
+    /**
+     * Provides the names of the command and of all of the command groups that contain it, in the order they occur on the command line, delimited by spaces.
+     */
+
+    getPath(): string {
+        if (this._parent === null)
+            return this._name;
+        return this._parent.getPath() +' '+ this._name;
+    }
+
+    /**
+     * Indicates whether this command is a command group having subcommands.
+     */
+
+    hasSubcommands(): boolean {
+        return this._children.length > 0;
+    }
+
     /**
      * Provides the command's syntax.
      */
@@ -49,6 +290,22 @@ export abstract class CommandSpec
         return this._syntax;
     }
 
+    /**
+     * Provides the schema of the command's declared command line options.
+     */
+
+    getOptionSchema(): OptionSchema {
+        return this._optionSchema;
+    }
+
+    /**
+     * Provides the positional arguments that the syntax declares, in order.
+     */
+
+    getPositionals(): CommandSpec.Positional[] {
+        return this._positionals;
+    }
+
     /**
      * Provides a single line summary of the command.
      */
@@ -57,9 +314,210 @@ export abstract class CommandSpec
         return this._summary;
     }
 
+    /**
+     * Provides the description of the command, or null if the command has no description.
+     */
+
+    getDescription(): string|null {
+        return this._description;
+    }
+
+    /**
+     * Provides the example uses of the command.
+     */
+
+    getExamples(): CommandSpec.Example[] {
+        return this._examples;
+    }
+
+    /**
+     * Provides the names of the commands and other references related to the command.
+     */
+
+    getSeeAlso(): string[] {
+        return this._seeAlso;
+    }
+
+    /**
+     * Indicates whether the command is left out of the lists of commands.
+     */
+
+    isHidden(): boolean {
+        return this._hidden;
+    }
+
+    /**
+     * Indicates whether the command is deprecated.
+     */
+
+    isDeprecated(): boolean {
+        return this._deprecated;
+    }
+
+    /**
+     * Provides the note explaining the command's deprecation, or null if there is no note.
+     */
+
+    getDeprecationNote(): string|null {
+        return this._deprecationNote;
+    }
+
+    /**
+     * Indicates whether the command is destructive, requiring confirmation to run.
+     */
+
+    isDestructive(): boolean {
+        return this._destructive;
+    }
+
     /**
      * Create the instance of NamedCommand that runs the command.
      */
 
-    abstract createCommand(): NamedCommand;
+    abstract createCommand(): NamedCommand<A, R>;
+
+    //// RESERVED METHODS /////////////////////////////////////////////////////
+    // these methods are reserved for use by the framework
+
+    _assignPositionals(args: Minimist.ParsedArgs): void {
+        // removes the declared positional arguments from args._, assigning
+        // them to args by name, and leaves any extra arguments in args._
+        this._positionals.forEach(positional => {
+
+            if (positional.variadic) {
+                if (positional.required && args._.length === 0) {
+                    throw new Errors.CommandUsageError({
+                        id: 'error.missing-variadic-argument',
+                        params: { name: positional.name }
+                    });
+                }
+                args[positional.name] = args._.splice(0);
+            }
+            else if (args._.length > 0)
+                args[positional.name] = args._.shift();
+            else if (positional.required) {
+                throw new Errors.CommandUsageError({
+                    id: 'error.missing-argument',
+                    params: { name: positional.name }
+                });
+            }
+        });
+    }
+
+    static _addGroup(
+        specs: CommandSpec[],
+        group: CommandSpec[],
+        parent: CommandSpec<any>|null,
+        heading?: string
+    ): void {
+        let firstOfGroup = true;
+        group.forEach(spec => {
+
+            const names = [spec._normName].concat(spec._normAliases);
+            names.forEach((name, i) => {
+
+                if (names.indexOf(name) !== i || specs.some(priorSpec =>
+                        priorSpec.hasName(name)))
+                {
+                    throw new Error("duplicate command name '"+
+                            (parent ? parent.getPath().toLowerCase() +' ' : '')+
+                            name +"'");
+                }
+            });
+            spec._firstOfGroup = firstOfGroup;
+            spec._groupHeading = (firstOfGroup && heading ? heading : null);
+            spec._parent = parent;
+            firstOfGroup = false;
+            specs.push(spec);
+        });
+    }
+}
+
+//// SUPPORT FUNCTIONS ////////////////////////////////////////////////////////
+
+function addSafeguardOptions(definitions: OptionSchema.Definitions)
+    : OptionSchema.Definitions
+{
+    // appends the options of destructive commands, except for any that the
+    // command declares itself
+    const safeguards: OptionSchema.Definitions = {
+        'dry-run': {
+            type: 'boolean',
+            description: { id: 'option.dry-run' }
+        },
+        'yes': {
+            type: 'boolean',
+            description: { id: 'option.confirm' }
+        }
+    };
+    const merged = Object.assign({}, definitions);
+    Object.keys(safeguards).forEach(name => {
+
+        if (merged[name] === undefined)
+            merged[name] = safeguards[name];
+    });
+    return merged;
+}
+
+function parsePositionals(syntax: string): CommandSpec.Positional[] {
+    const positionals: CommandSpec.Positional[] = [];
+    syntax.split(/ +/).slice(1).forEach(term => {
+
+        const matches = term.match(/^(<|\[)([^-<>\[\]][^<>\[\]]*)(>|\])$/);
+        if (!matches || OPTIONS_TERM_REGEX.test(matches[2]))
+            return; // not a positional argument
+        const required = (matches[1] === '<');
+        if (required !== (matches[3] === '>'))
+            throw new Error(`mismatched brackets in syntax term '${term}'`);
+        let name = matches[2];
+        const variadic = (name.substr(-3) === '...');
+        if (variadic)
+            name = name.substr(0, name.length - 3);
+
+        const prior = positionals[positionals.length - 1];
+        if (prior && prior.variadic)
+            throw new Error(`'${term}' follows a variadic argument`);
+        if (prior && required && !prior.required)
+            throw new Error(`required '${term}' follows an optional argument`);
+        positionals.push({ name, required, variadic });
+    });
+    return positionals;
+}
+
+function toKind(positional: CommandSpec.Positional): string {
+    if (positional.variadic)
+        return 'variadic';
+    return (positional.required ? 'required' : 'optional');
+}
+
+/**
+ * CommandGroupSpec specifies a command that does nothing but group subcommands, such as the `remote` of `tool remote add <name>`. The command line must name one of its subcommands, unless requesting help for the group.
+ */
+
+export class CommandGroupSpec extends CommandSpec
+{
+    /**
+     * @param syntax Illustration of the command group's syntax, whose first term is the name of the command group. See CommandSpec.
+     * @param summary A single line that summarizes the command group.
+     * @param groups Optional list of groups of subcommand specifications to add, each as would be passed to `addCommands()`.
+     * @param options Optional configuration of the command group, accepting the properties that CommandSpec accepts, except for `options`, which a command group does not use.
+     */
+
+    constructor(
+        syntax: string,
+        summary: string,
+        groups?: CommandSpec[][],
+        options?: CommandSpec.Options
+    ) {
+        super(syntax, summary, options);
+        (groups || []).forEach(group => this.addCommands(group));
+    }
+
+    /**
+     * Throws, because a command group never runs as a command itself.
+     */
+
+    createCommand(): NamedCommand {
+        throw new Error(`command group '${this.getPath()}' has no command`);
+    }
 }
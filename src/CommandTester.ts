@@ -0,0 +1,74 @@
+
+import Stream = require("stream");
+import { CaptureStream } from './CaptureStream';
+import { CommandRunner } from './CommandRunner';
+
+//// TYPES ////////////////////////////////////////////////////////////////////
+
+// input stream that may claim to be a terminal
+interface TerminalInput extends Stream.PassThrough {
+    isTTY?: boolean; // whether the stream is a terminal
+}
+
+export namespace CommandTester {
+    export interface Result {
+        stdout: string; // all text written to stdout
+        stderr: string; // all text written to stderr
+        error?: Error; // error with which the run ended, if any
+        exitCode: number; // exit code that CommandRunner#main() would assign
+        outcome: CommandRunner.Outcome|null; // null if the run threw
+    }
+}
+
+/**
+ * CommandTester runs a CommandRunner in-process for testing, supplying scripted answers to prompts and capturing the output, without spawning a child process.
+ */
+
+export class CommandTester
+{
+    /**
+     * Runs a command line against a CommandRunner, temporarily replacing the runner's streams. The runner's original streams are restored when the run completes. As with `CommandRunner#main()`, an error ending the run is reported to stderr, and the result includes the exit code that the runner assigns to the outcome.
+     *
+     * @param runner The CommandRunner to run.
+     * @param argv The command line arguments, excluding those that execute the tool.
+     * @param answers Lines of input to supply to prompts, in order. Input ends after the last line.
+     * @returns a promise resolving to the captured output, error, and exit code.
+     */
+
+    static async run(
+        runner: CommandRunner,
+        argv: string[],
+        answers?: string[]
+    ): Promise<CommandTester.Result> {
+        const stdout = new CaptureStream();
+        const stderr = new CaptureStream();
+        const stdin: TerminalInput = new Stream.PassThrough();
+        stdin.isTTY = true; // the answers simulate a user at a terminal
+        (answers || []).forEach(answer => stdin.write(answer +"\n"));
+        stdin.end();
+
+        const originalStreams = runner.getStreams();
+        runner.setStreams({ stdout, stderr, stdin });
+        let outcome: CommandRunner.Outcome|null = null;
+        let error: Error|undefined;
+        try {
+            outcome = await runner.run(argv);
+            error = outcome.error;
+        }
+        catch (err) {
+            error = err;
+        }
+        finally {
+            if (error)
+                stderr.write(runner.formatError(error, false));
+            runner.setStreams(originalStreams);
+        }
+        return {
+            stdout: stdout.getText(),
+            stderr: stderr.getText(),
+            error,
+            exitCode: runner.getExitCode(error),
+            outcome
+        };
+    }
+}
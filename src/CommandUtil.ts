@@ -1,6 +1,17 @@
 
 import Minimist = require("minimist");
-const Prompt: any = require("prompt"); // TBD: define these typings
+import { MessageCatalog } from './MessageCatalog';
+import { Prompter } from './Prompter';
+import * as Errors from './errors';
+
+//// TYPES ////////////////////////////////////////////////////////////////////
+
+export namespace CommandUtil {
+    export interface PromptStreams {
+        stdin: NodeJS.ReadableStream; // stream from which to read the reply
+        stdout: NodeJS.WritableStream; // stream to which to write the prompt
+    }
+}
 
 /**
  * Utility functions for assisting with command line processing.
@@ -55,26 +66,56 @@ export class CommandUtil
     }
 
     /**
-     * Displays the provided message to stdout and waits for the user to respond and hit enter. If the user types "y" or "yes" (in any letter case), the second parameter of `next()` will be true, otherwise false.
-     * This is a support method for implementations of `doCommand()`.
+     * Deprecated in favor of `NamedCommand#confirm()`, which uses the streams of the CommandRunner and honors the `--yes` and `--no-input` options.
+     *
+     * Displays the provided message to stdout and waits for the user to respond and hit enter, asking via a Prompter. If the user types "y" or "yes" (in any letter case), or a confirming answer of the catalog's locale, the second parameter of `next()` will be true, otherwise false. When `next` is not provided, the method instead returns a promise that resolves to this boolean. The user declines by entering nothing or by ending the input, and the method declines without prompting when the input is not a terminal.
      *
      * @param message Message to present to the user.
+     * @param streams Optional streams to use instead of the process's stdin and stdout. Only accepted when `next` is not provided.
+     * @param catalog Optional catalog providing the prompt's suffix and the confirming answers, defaulting to the English catalog. Only accepted when `next` is not provided.
      * @param next The next `function (err, confirmed)` to call, where `confirmed` is a boolean taking the value `true` when confirmed.
      */
         
+    static confirm(
+        message: string,
+        streams?: CommandUtil.PromptStreams,
+        catalog?: MessageCatalog
+    ): Promise<boolean>;
     static confirm(
         message: string,
         next: (err: Error|null, confirmed?: boolean) => void
-    ): void {
-        Prompt.start();
-        Prompt.get({
-            name: 'yesno',
-            message: message +" (y/n)",
-            default: 'n'
-        }, function(err: Error|null, result: { yesno: string }) {
-            let answer = result.yesno.toLowerCase();
-            next(null, (answer === 'y' || answer === 'yes'));
-        });
+    ): void;
+    static confirm(
+        message: string,
+        streamsOrNext?: CommandUtil.PromptStreams|
+            ((err: Error|null, confirmed?: boolean) => void),
+        catalog?: MessageCatalog
+    ): Promise<boolean>|void {
+        if (typeof streamsOrNext === 'function') {
+            const next = streamsOrNext;
+            CommandUtil.confirm(message).then(confirmed => next(null, confirmed),
+                    err => next(err));
+            return;
+        }
+        const streams = streamsOrNext || {
+            stdin: process.stdin,
+            stdout: process.stdout
+        };
+        return new Prompter(streams, { catalog }).confirm(message,
+                { default: false });
+    }
+
+    /**
+     * Indicates whether a stream is a terminal, as the streams of the process are when not redirected.
+     *
+     * @param stream The stream to examine.
+     * @returns true when the stream is a terminal.
+     */
+
+    static isTTY(stream: NodeJS.ReadableStream|NodeJS.WritableStream)
+        : boolean
+    {
+        return (<NodeJS.Socket>stream).isTTY === true;
     }
 
     /**
@@ -89,4 +130,114 @@ export class CommandUtil
             return null;
         return args._.shift()!;
     }
+
+    /**
+     * Splits a line of text into command line arguments, as a shell would. Arguments are separated by whitespace. Single quotes preserve the literal text they enclose. Double quotes preserve the text they enclose, except that a backslash escapes a double quote or a backslash. Outside of quotes, a backslash escapes any character.
+     *
+     * @param line The line of text to split.
+     * @param partial Whether the line may end within an incomplete argument, as when completing the line. When true, an unterminated quote or escape ends the line, and a line ending in whitespace yields a final empty argument.
+     * @returns the arguments of the line.
+     * @throws CommandUsageError when a quote is unterminated and `partial` is not true.
+     */
+
+    static splitCommandLine(line: string, partial?: boolean): string[] {
+        const args: string[] = [];
+        let arg: string|null = null; // null between arguments
+        let quote = ''; // the open quote character, if any
+        for (let i = 0; i < line.length; ++i) {
+            const c = line[i];
+            if (quote === "'") {
+                if (c === "'")
+                    quote = '';
+                else
+                    arg += c;
+            }
+            else if (quote === '"') {
+                if (c === '"')
+                    quote = '';
+                else if (c === '\\' && (line[i + 1] === '"' ||
+                        line[i + 1] === '\\'))
+                    arg += line[++i];
+                else
+                    arg += c;
+            }
+            else if (/\s/.test(c)) {
+                if (arg !== null)
+                    args.push(arg);
+                arg = null;
+            }
+            else {
+                if (arg === null)
+                    arg = '';
+                if (c === "'" || c === '"')
+                    quote = c;
+                else if (c === '\\' && i + 1 < line.length)
+                    arg += line[++i];
+                else if (c !== '\\')
+                    arg += c;
+            }
+        }
+        if (quote !== '' && !partial)
+            throw new Errors.CommandUsageError(
+                    { id: 'error.unterminated-quote', params: { quote } });
+        if (arg !== null)
+            args.push(arg);
+        else if (partial)
+            args.push('');
+        return args;
+    }
+
+    /**
+     * Returns the edit distance between two strings, which is the minimum number of single-character insertions, deletions, and substitutions needed to turn one string into the other (the Levenshtein distance).
+     *
+     * @param from The string to edit.
+     * @param to The string to produce by editing.
+     * @returns the edit distance between the strings.
+     */
+
+    static getEditDistance(from: string, to: string): number {
+        let priorRow: number[] = [];
+        for (let j = 0; j <= to.length; ++j)
+            priorRow.push(j);
+        for (let i = 1; i <= from.length; ++i) {
+            const row = [i];
+            for (let j = 1; j <= to.length; ++j) {
+                const cost = (from[i - 1] === to[j - 1] ? 0 : 1);
+                row.push(Math.min(row[j - 1] + 1, priorRow[j] + 1,
+                        priorRow[j - 1] + cost));
+            }
+            priorRow = row;
+        }
+        return priorRow[to.length];
+    }
+
+    /**
+     * Returns the candidates that most closely resemble the given string, for suggesting corrections to a mistyped name. A candidate qualifies if the string is a prefix of the candidate or if the edit distance between them is at most a third of the length of the string, but at least 1 or 2 for short strings. The candidates are returned in order of increasing edit distance.
+     *
+     * @param name The possibly mistyped string.
+     * @param candidates The strings that might have been intended.
+     * @param maxSuggestions The maximum number of suggestions to return. Defaults to 3.
+     * @returns the closest candidates, best first.
+     */
+
+    static getSuggestions(
+        name: string,
+        candidates: string[],
+        maxSuggestions?: number
+    ): string[] {
+        const maxDistance = Math.max(name.length < 4 ? 1 : 2,
+                Math.floor(name.length / 3));
+        const scored: Array<[string, number]> = [];
+        candidates.forEach(candidate => {
+
+            let distance = CommandUtil.getEditDistance(name, candidate);
+            if (candidate.substr(0, name.length) === name)
+                distance = Math.min(distance, 1);
+            if (distance <= maxDistance &&
+                    !scored.some(entry => entry[0] === candidate))
+                scored.push([candidate, distance]);
+        });
+        scored.sort((a, b) => a[1] - b[1]);
+        return scored.slice(0, maxSuggestions || 3).map(entry => entry[0]);
+    }
 }
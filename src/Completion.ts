@@ -0,0 +1,206 @@
+
+import { CommandRunner } from './CommandRunner';
+import { CommandSpec } from './CommandSpec';
+import { OptionSchema } from './OptionSchema';
+
+//// CONSTANTS ////////////////////////////////////////////////////////////////
+
+const HELP_FLAGS = ['-h', '--help'];
+
+//// TYPES ////////////////////////////////////////////////////////////////////
+
+export namespace Completion {
+    export type Shell = 'bash'|'zsh'|'fish';
+}
+
+/******************************************************************************
+Completion provides shell completion for the commands of a CommandRunner. It generates completion scripts for bash, zsh, and fish, and it computes the completions that these scripts request at runtime. The scripts request completions by running the tool with the hidden command `__complete`, followed by `--` and the words of the command line up to and including the word being completed.
+******************************************************************************/
+
+export class Completion
+{
+    static readonly SHELLS: Completion.Shell[] = ['bash', 'zsh', 'fish'];
+    static readonly COMMAND = '__complete'; // hidden command for completing
+    static readonly SCRIPT_COMMAND = '__completion'; // hidden script command
+
+    protected runner: CommandRunner; // runner whose commands to complete
+
+    /**
+     * @param runner The CommandRunner whose commands and options to complete.
+     */
+
+    constructor(runner: CommandRunner) {
+        this.runner = runner;
+    }
+
+    /**
+     * Returns the completions of the last of the provided command line words. Completes command names, option names, and the values of options. Values are completed for enum options and for options that provide a completer.
+     *
+     * @param words The words of the command line that follow the tool name, the last of which is the partial word to complete, possibly empty.
+     * @returns a promise resolving to the completions of the partial word
+     */
+
+    async complete(words: string[]): Promise<string[]> {
+        const partial = (words.length > 0 ? words[words.length - 1] : '');
+        let priorWords = words.slice(0, -1);
+        if (priorWords[0] === 'help' && this.runner.hasHelpCommand())
+            priorWords = priorWords.slice(1); // complete the commands to help
+
+        // Find the command that the prior words name, if any, skipping
+        // over global options.
+
+        let specs = this.runner.getCommandSpecs();
+        let spec: CommandSpec|null = null;
+        let wordIndex = 0;
+        while (wordIndex < priorWords.length &&
+                (spec === null || spec.hasSubcommands()))
+        {
+            if (priorWords[wordIndex][0] === '-') {
+                const count =
+                        this.runner.countGlobalOptionArgs(priorWords, wordIndex);
+                if (count === 0)
+                    break;
+                wordIndex += count;
+                continue;
+            }
+            const name = priorWords[wordIndex].toLowerCase();
+            spec = this.runner.findCommand(specs, name);
+            if (spec === null)
+                return []; // no completions for unrecognized commands
+            specs = spec._children;
+            ++wordIndex;
+        }
+        const isGroup = (spec === null || spec.hasSubcommands());
+        const schemas = [this.runner.getGlobalOptionSchema()];
+        if (!isGroup)
+            schemas.push(spec!._optionSchema);
+        else if (spec === null)
+            schemas.push(this.runner.getToolOptionSchema());
+
+        // Complete the values of options.
+
+        const priorWord = priorWords[priorWords.length - 1];
+        if (priorWord !== undefined && priorWord[0] === '-' &&
+                priorWord.indexOf('=') < 0)
+        {
+            const def = findDefinition(schemas, priorWord.replace(/^--?/, ''));
+            if (def !== null && def.type !== 'boolean')
+                return this.completeValue(def, partial);
+        }
+        const equalsMatch = partial.match(/^(--?([^=]+)=)(.*)$/);
+        if (equalsMatch) {
+            const def = findDefinition(schemas, equalsMatch[2]);
+            if (def === null || def.type === 'boolean')
+                return [];
+            const values = await this.completeValue(def, equalsMatch[3]);
+            return values.map(value => equalsMatch[1] + value);
+        }
+
+        // Complete the names of options and commands.
+
+        if (partial[0] === '-') {
+            let flags = HELP_FLAGS;
+            schemas.forEach(schema => {
+                flags = flags.concat(schema.getFlags());
+            });
+            return filter(flags, partial);
+        }
+        if (isGroup && wordIndex === priorWords.length)
+            return filter(this.getCommandNames(specs), partial.toLowerCase());
+        return [];
+    }
+
+    /**
+     * Returns the names of the provided commands as they should be completed, leaving out hidden commands and including the built-in `help` command among the top-level commands when available. Override this method to alter the names that are completed.
+     *
+     * @param specs The specifications of the commands whose names to provide.
+     * @returns the command names
+     */
+
+    getCommandNames(specs: CommandSpec[]): string[] {
+        const names = specs.filter(spec => !spec._hidden)
+                .map(spec => spec._normName);
+        if (specs === this.runner.getCommandSpecs() &&
+                this.runner.hasHelpCommand())
+            names.push('help');
+        return names;
+    }
+
+    /**
+     * Returns a script that provides completion for the tool in the given shell. The user installs the script by evaluating it in the shell, such as via `source <(mytool __completion bash)` in bash.
+     *
+     * @param shell The shell for which to generate the script.
+     * @param programName The name by which the user runs the tool.
+     * @returns the text of the completion script.
+     */
+
+    static getScript(shell: Completion.Shell, programName: string): string {
+        const fn = '_'+ programName.replace(/[^A-Za-z0-9_]/g, '_') +'_complete';
+        const run = `${programName} ${Completion.COMMAND} --`;
+        switch (shell) {
+            case 'bash':
+                return [
+                    `${fn}() {`,
+                    `    local IFS=$'\\n'`,
+                    `    COMPREPLY=( $(${run} "\${COMP_WORDS[@]:1:COMP_CWORD}" 2>/dev/null) )`,
+                    `}`,
+                    `complete -o default -F ${fn} ${programName}`,
+                    ''
+                ].join("\n");
+            case 'zsh':
+                return [
+                    `#compdef ${programName}`,
+                    `${fn}() {`,
+                    `    local -a candidates`,
+                    `    candidates=(\${(f)"$(${run} "\${(@)words[2,CURRENT]}" 2>/dev/null)"})`,
+                    `    compadd -a candidates`,
+                    `}`,
+                    `compdef ${fn} ${programName}`,
+                    ''
+                ].join("\n");
+            case 'fish':
+                return [
+                    `function ${fn}`,
+                    `    set -l words (commandline -opc)`,
+                    `    set -e words[1]`,
+                    `    ${run} $words (commandline -ct) 2>/dev/null`,
+                    `end`,
+                    `complete -c ${programName} -f -a '(${fn})'`,
+                    ''
+                ].join("\n");
+        }
+        throw new Error(`unsupported shell '${shell}'`);
+    }
+
+    //// PROTECTED METHODS ////////////////////////////////////////////////////
+
+    protected async completeValue(
+        def: OptionSchema.Definition,
+        partial: string
+    ): Promise<string[]> {
+        if (def.complete)
+            return filter(await def.complete(partial), partial);
+        if (def.type === 'enum')
+            return filter(def.values!, partial);
+        return [];
+    }
+}
+
+//// SUPPORT FUNCTIONS ////////////////////////////////////////////////////////
+
+function findDefinition(
+    schemas: OptionSchema[],
+    name: string
+): OptionSchema.Definition|null {
+    for (let i = 0; i < schemas.length; ++i) {
+        const def = schemas[i].getDefinition(name);
+        if (def !== null)
+            return def;
+    }
+    return null;
+}
+
+function filter(candidates: string[], partial: string): string[] {
+    return candidates.filter(candidate =>
+            candidate.substr(0, partial.length) === partial);
+}
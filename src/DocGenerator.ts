@@ -0,0 +1,307 @@
+
+import FS = require("fs");
+import Path = require("path");
+import OptionHelp = require("option-help");
+import { CommandRunner } from './CommandRunner';
+import { CommandSpec, CommandGroupSpec } from './CommandSpec';
+import { NamedCommand } from './NamedCommand';
+import { MessageCatalog } from './MessageCatalog';
+import { OptionSchema } from './OptionSchema';
+
+//// CONSTANTS ////////////////////////////////////////////////////////////////
+
+const DEFAULT_WRAP_WIDTH = 80; // default width at which to wrap command help
+
+//// TYPES ////////////////////////////////////////////////////////////////////
+
+export namespace DocGenerator {
+    export type Format = 'man'|'markdown';
+
+    export interface Options {
+        programName: string; // name by which the user runs the tool
+        description?: string; // description of the tool as a whole
+        section?: string; // manual section of the man page
+        wrapWidth?: number; // width at which to wrap extended command help
+    }
+
+    export interface Files {
+        [filename: string]: string; // file contents keyed by file name
+    }
+}
+
+/******************************************************************************
+DocGenerator generates reference documentation for the commands registered with a CommandRunner, including subcommands, global options, the options, aliases, descriptions, examples, and "see also" references of each command, and the extended help of commands that override `NamedCommand#getHelp()`. It generates either a roff man page or a set of Markdown pages, one per command plus an index. CommandRunner also generates the documentation when run with the hidden command `__docs <man|markdown> <directory> [programName]`.
+******************************************************************************/
+
+export class DocGenerator
+{
+    static readonly FORMATS: DocGenerator.Format[] = ['man', 'markdown'];
+    static readonly COMMAND = '__docs'; // hidden command for generating docs
+
+    protected runner: CommandRunner; // runner whose commands to document
+    protected programName: string; // name by which the user runs the tool
+    protected description: string|null; // description of the tool
+    protected section: string; // manual section of the man page
+    protected wrapWidth: number; // width at which to wrap command help
+
+    /**
+     * @param runner The CommandRunner whose commands to document.
+     * @param options Configuration requiring `programName` and optionally accepting a `description` of the tool, the man page `section` (defaults to "1"), and a `wrapWidth` for extended command help (defaults to 80).
+     */
+
+    constructor(runner: CommandRunner, options: DocGenerator.Options) {
+        this.runner = runner;
+        this.programName = options.programName;
+        this.description = options.description || null;
+        this.section = options.section || '1';
+        this.wrapWidth = options.wrapWidth || DEFAULT_WRAP_WIDTH;
+    }
+
+    /**
+     * Generates the documentation in the given format, returning the contents of the files to write, keyed by file name. The man format yields the single file `<programName>.<section>`. The Markdown format yields `index.md` plus one file per command, named for the command's path.
+     *
+     * @param format Either 'man' or 'markdown'.
+     * @returns the files of documentation.
+     */
+
+    generate(format: DocGenerator.Format): DocGenerator.Files {
+        if (format === 'man') {
+            const filename = this.programName +'.'+ this.section;
+            return { [filename]: this.generateManPage() };
+        }
+        return this.generateMarkdown();
+    }
+
+    /**
+     * Generates the documentation in the given format and writes the files to a directory, creating the directory if necessary.
+     *
+     * @param format Either 'man' or 'markdown'.
+     * @param dirPath Path to the directory in which to write the files.
+     * @returns the paths of the files written.
+     */
+
+    write(format: DocGenerator.Format, dirPath: string): string[] {
+        const files = this.generate(format);
+        makeDirectory(dirPath);
+        return Object.keys(files).map(filename => {
+
+            const filePath = Path.join(dirPath, filename);
+            FS.writeFileSync(filePath, files[filename]);
+            return filePath;
+        });
+    }
+
+    /**
+     * Returns a roff man page documenting all of the commands.
+     */
+
+    generateManPage(): string {
+        const name = this.programName;
+        const catalog = this.runner.getMessageCatalog();
+        let page = `.TH ${roff(name.toUpperCase())} ${this.section}\n`;
+        page += `.SH NAME\n${roff(name)}`+ (this.description ?
+                ` \\- ${roff(this.description.split("\n")[0])}\n` : "\n");
+        page += `.SH SYNOPSIS\n.B ${roff(name)}\n`+
+                `.I command\n[\\fIoptions\\fR] [\\fIarguments\\fR]\n`;
+        if (this.description)
+            page += `.SH DESCRIPTION\n${roff(this.description)}\n`;
+
+        page += ".SH COMMANDS\n";
+        this.getAllSpecs(this.runner.getCommandSpecs()).forEach(spec => {
+
+            page += `.TP\n.B ${roff(getUsage(spec))}\n`+
+                    `${roff(this.runner.getCommandSummary(spec))}\n`;
+            if (spec._destructive)
+                page += ".br\nDestructive; asks for confirmation unless given --yes\n";
+            if (spec._deprecated) {
+                page += ".br\nDeprecated"+ (spec._deprecationNote === null ? '' :
+                        ": "+ roff(spec._deprecationNote)) +"\n";
+            }
+            if (spec._normAliases.length > 0)
+                page += `.br\nAliases: ${roff(spec._normAliases.join(', '))}\n`;
+            const description = this.runner.getCommandDescription(spec);
+            if (description !== null)
+                page += `.br\n${roff(description)}\n`;
+            spec._optionSchema.getHelpEntries(catalog).forEach(entry => {
+                page += `.br\n\\fB${roff(entry[0])}\\fR  ${roff(entry[1])}\n`;
+            });
+            spec._examples.forEach(example => {
+                page += `.br\nExample: \\fB${roff(example.command)}\\fR\n`+
+                        (example.description ? roff(example.description) +"\n" : '');
+            });
+            if (spec._seeAlso.length > 0)
+                page += `.br\nSee also: ${roff(spec._seeAlso.join(', '))}\n`;
+            const extendedHelp = this.getExtendedHelp(spec);
+            if (extendedHelp !== null)
+                page += `.RS\n.nf\n${roff(extendedHelp)}\n.fi\n.RE\n`;
+        });
+
+        const globalSchema = this.runner.getGlobalOptionSchema();
+        if (!globalSchema.isEmpty()) {
+            page += ".SH GLOBAL OPTIONS\n";
+            globalSchema.getHelpEntries(catalog).forEach(entry => {
+                page += `.TP\n.B ${roff(entry[0])}\n${roff(entry[1])}\n`;
+            });
+        }
+        return page;
+    }
+
+    /**
+     * Returns Markdown pages documenting the commands, keyed by file name. The `index.md` page lists the top-level commands, grouped as added to the CommandRunner, and the global options. Each command has its own page, and each command group's page lists its subcommands.
+     */
+
+    generateMarkdown(): DocGenerator.Files {
+        const files: DocGenerator.Files = {};
+        const catalog = this.runner.getMessageCatalog();
+        let index = `# ${this.programName}\n\n`;
+        if (this.description)
+            index += this.description +"\n\n";
+        index += "## Commands\n\n"+
+                this.getMarkdownList(this.runner.getCommandSpecs());
+        index += getMarkdownOptions("Global options",
+                this.runner.getGlobalOptionSchema(), catalog);
+        files['index.md'] = index;
+
+        this.getAllSpecs(this.runner.getCommandSpecs()).forEach(spec => {
+
+            let page = `# ${this.programName} ${spec.getPath().toLowerCase()}\n\n`;
+            page += this.runner.getCommandSummary(spec) +"\n\n";
+            if (spec._destructive) {
+                page += "**Destructive**: asks for confirmation unless given "+
+                        "`--yes`\n\n";
+            }
+            if (spec._deprecated) {
+                page += "**Deprecated**"+ (spec._deprecationNote === null ? '' :
+                        ": "+ spec._deprecationNote) +"\n\n";
+            }
+            page += "```\n"+ this.programName +' '+ getUsage(spec) +"\n```\n\n";
+            if (spec._normAliases.length > 0) {
+                page += "Aliases: "+ spec._normAliases.map(alias =>
+                        '`'+ alias +'`').join(', ') +"\n\n";
+            }
+            const description = this.runner.getCommandDescription(spec);
+            if (description !== null)
+                page += description.replace(/\s+$/, '') +"\n\n";
+            if (spec.hasSubcommands())
+                page += "## Subcommands\n\n"+ this.getMarkdownList(spec._children);
+            page += getMarkdownOptions("Options", spec._optionSchema, catalog);
+            if (spec._examples.length > 0) {
+                page += "## Examples\n\n"+ spec._examples.map(example =>
+                    (example.description ? example.description +"\n\n" : '') +
+                        "```\n"+ example.command +"\n```\n\n"
+                ).join('');
+            }
+            if (spec._seeAlso.length > 0) {
+                page += "## See also\n\n"+ spec._seeAlso.map(reference =>
+                        "- "+ reference +"\n").join('') +"\n";
+            }
+            const extendedHelp = this.getExtendedHelp(spec);
+            if (extendedHelp !== null)
+                page += "## Details\n\n```\n"+ extendedHelp +"\n```\n\n";
+            page += `[Back to ${this.programName}](index.md)\n`;
+            files[this.getMarkdownFilename(spec)] = page;
+        });
+        return files;
+    }
+
+    /**
+     * Returns the name of the Markdown file that documents a command. The name derives from the program name and the command's path.
+     */
+
+    getMarkdownFilename(spec: CommandSpec): string {
+        return (this.programName +' '+ spec.getPath()).toLowerCase()
+                .replace(/[^a-z0-9_.]+/g, '-') +'.md';
+    }
+
+    //// PROTECTED METHODS ////////////////////////////////////////////////////
+
+    protected getAllSpecs(specs: CommandSpec[]): CommandSpec[] {
+        let allSpecs: CommandSpec[] = [];
+        specs.filter(spec => !spec._hidden).forEach(spec => {
+            allSpecs.push(spec);
+            allSpecs = allSpecs.concat(this.getAllSpecs(spec._children));
+        });
+        return allSpecs;
+    }
+
+    protected getMarkdownList(specs: CommandSpec[]): string {
+        let list = '';
+        let groupStart: CommandSpec|null = null; // first of unlisted group
+        specs.forEach(spec => {
+
+            if (spec._firstOfGroup)
+                groupStart = spec;
+            if (spec._hidden)
+                return;
+            if (groupStart !== null) {
+                list += (list === '' ? '' : "\n") + (groupStart._groupHeading ?
+                        "### "+ groupStart._groupHeading +"\n\n" : '') +
+                        "| Command | Summary |\n| --- | --- |\n";
+                groupStart = null;
+            }
+            list += `| [\`${mdCell(getUsage(spec))}\`](${
+                    this.getMarkdownFilename(spec)}) | ${
+                    mdCell(this.runner.getCommandSummary(spec))} |\n`;
+        });
+        return list +"\n";
+    }
+
+    protected getExtendedHelp(spec: CommandSpec): string|null {
+        // only commands overriding getHelp() have help beyond their spec,
+        // which is the text the override adds before or after the default
+        // help, as the rest of the page already documents the spec
+        if (spec instanceof CommandGroupSpec)
+            return null;
+        const command = spec.createCommand();
+        if (command.getHelp === NamedCommand.prototype.getHelp)
+            return null;
+        command._init(this.runner, spec);
+        const defaultHelp = NamedCommand.prototype.getHelp.call(command,
+                this.wrapWidth);
+        let help = command.getHelp(this.wrapWidth);
+        if (help.substr(0, defaultHelp.length) === defaultHelp)
+            help = help.substr(defaultHelp.length);
+        else if (help.substr(-defaultHelp.length) === defaultHelp)
+            help = help.substr(0, help.length - defaultHelp.length);
+        help = OptionHelp.wrapText(help, this.wrapWidth, true)
+                .replace(/^\s+|\s+$/g, '');
+        return (help === '' ? null : help);
+    }
+}
+
+//// SUPPORT FUNCTIONS ////////////////////////////////////////////////////////
+
+function makeDirectory(dirPath: string): void {
+    // creates the directory along with any missing parent directories
+    if (FS.existsSync(dirPath))
+        return;
+    makeDirectory(Path.dirname(dirPath));
+    FS.mkdirSync(dirPath);
+}
+
+function getUsage(spec: CommandSpec): string {
+    return spec.getPath().toLowerCase() + spec._syntax.substr(spec._name.length);
+}
+
+function getMarkdownOptions(
+    heading: string,
+    schema: OptionSchema,
+    catalog: MessageCatalog
+): string {
+    if (schema.isEmpty())
+        return '';
+    let text = `## ${heading}\n\n| Option | Description |\n| --- | --- |\n`;
+    schema.getHelpEntries(catalog).forEach(entry => {
+        text += `| \`${mdCell(entry[0])}\` | ${mdCell(entry[1])} |\n`;
+    });
+    return text +"\n";
+}
+
+function mdCell(text: string): string {
+    return text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
+
+function roff(text: string): string {
+    return text.replace(/\\/g, '\\e').replace(/-/g, '\\-')
+            .replace(/^([.'])/gm, '\\&$1');
+}
@@ -0,0 +1,186 @@
+
+import { StringDecoder } from 'string_decoder';
+import { CommandUtil } from './CommandUtil';
+
+//// TYPES ////////////////////////////////////////////////////////////////////
+
+export namespace LineReader {
+    // writes a prompt and resolves to the next line of input, null at end
+    export type Delegate = (prompt: string) => Promise<string|null>;
+}
+
+// input stream of a terminal, whose raw mode hides the characters typed
+interface RawModeInput extends NodeJS.ReadableStream {
+    setRawMode(mode: boolean): void; // sets whether in raw mode
+}
+
+/**
+ * LineReader reads lines of user input from a readable stream, one line per request. All prompts reading from the same stream must share the same LineReader, obtained via `LineReader.for()`, so that lines read ahead from the stream are not lost between prompts. The reader only listens to the stream while a line is requested, pausing the stream otherwise, which allows the process to exit and other readers, such as an interactive shell, to share the stream.
+ */
+
+export class LineReader
+{
+    protected input: NodeJS.ReadableStream; // stream from which to read lines
+    protected decoder = new StringDecoder('utf8'); // decodes input chunks
+    protected partialLine = ''; // text read after the last complete line
+    protected lines: string[] = []; // complete lines not yet requested
+    protected requests: Array<(line: string|null) => void> = []; // pending
+    protected ended = false; // whether the input stream has ended
+    protected listening = false; // whether listening to the input stream
+    protected delegate: LineReader.Delegate|null = null; // reads in our stead
+
+    protected static readers = new WeakMap<object, LineReader>(); // by stream
+
+    /**
+     * Returns the LineReader for the given stream, creating it if necessary.
+     *
+     * @param input The stream from which to read lines.
+     */
+
+    static for(input: NodeJS.ReadableStream): LineReader {
+        let reader = LineReader.readers.get(input);
+        if (!reader) {
+            reader = new LineReader(input);
+            LineReader.readers.set(input, reader);
+        }
+        return reader;
+    }
+
+    protected constructor(input: NodeJS.ReadableStream) {
+        this.input = input;
+        this.onData = this.onData.bind(this);
+        input.on('end', () => this.onEnd());
+        input.on('error', () => this.onEnd());
+    }
+
+    /**
+     * Reads the next line of input, without its line terminator.
+     *
+     * @returns a promise resolving to the line, or to null when the input has ended.
+     */
+
+    readLine(): Promise<string|null> {
+        if (this.delegate)
+            return this.delegate('');
+        return new Promise<string|null>(resolve => {
+            this.requests.push(resolve);
+            this.fulfill();
+        });
+    }
+
+    /**
+     * Writes a prompt to an output stream and then reads the next line of input, without its line terminator.
+     *
+     * @param output The stream to which to write the prompt.
+     * @param prompt The prompt to write, which should end with any desired spacing.
+     * @returns a promise resolving to the line, or to null when the input has ended.
+     */
+
+    question(output: NodeJS.WritableStream, prompt: string)
+        : Promise<string|null>
+    {
+        if (this.delegate)
+            return this.delegate(prompt);
+        output.write(prompt);
+        return this.readLine();
+    }
+
+    /**
+     * Writes a prompt to an output stream and then reads the next line of input without echoing the characters typed, as for entering a password. The input is only hidden when the input stream is a terminal and no delegate reads lines in place of this reader; otherwise the method behaves as `question()`.
+     *
+     * @param output The stream to which to write the prompt.
+     * @param prompt The prompt to write, which should end with any desired spacing.
+     * @returns a promise resolving to the line, or to null when the input has ended or the user presses Ctrl-C or Ctrl-D on an empty line.
+     */
+
+    questionHidden(output: NodeJS.WritableStream, prompt: string)
+        : Promise<string|null>
+    {
+        if (this.delegate || !CommandUtil.isTTY(this.input) ||
+                !isRawModeInput(this.input))
+            return this.question(output, prompt);
+        const input: RawModeInput = this.input;
+        output.write(prompt);
+        return new Promise<string|null>(resolve => {
+            let line = '';
+            const finish = (result: string|null) => {
+                input.removeListener('data', onData);
+                input.setRawMode(false);
+                input.pause();
+                output.write("\n");
+                resolve(result);
+            };
+            const onData = (chunk: Buffer|string) => {
+                const text = (typeof chunk === 'string' ? chunk :
+                        this.decoder.write(chunk));
+                for (const c of text) {
+                    if (c === '\r' || c === '\n')
+                        return finish(line);
+                    if (c === '\u0003' || c === '\u0004' && line === '')
+                        return finish(null); // Ctrl-C or Ctrl-D
+                    if (c === '\u007f' || c === '\b')
+                        line = line.substr(0, line.length - 1);
+                    else if (c >= ' ')
+                        line += c;
+                }
+            };
+            input.setRawMode(true);
+            input.on('data', onData);
+            input.resume();
+        });
+    }
+
+    /**
+     * Assigns a function that reads lines in place of this reader, or removes the function. Useful when another reader, such as an interactive shell, owns the input stream for a period of time and must answer prompts from the stream's lines.
+     *
+     * @param delegate Function that writes a prompt and resolves to the next line of input, or null to resume reading lines directly from the stream.
+     */
+
+    setDelegate(delegate: LineReader.Delegate|null): void {
+        this.delegate = delegate;
+    }
+
+    //// PROTECTED METHODS ////////////////////////////////////////////////////
+
+    protected fulfill(): void {
+        while (this.requests.length > 0 &&
+                (this.lines.length > 0 || this.ended))
+        {
+            const line = (this.lines.length > 0 ? this.lines.shift()! : null);
+            this.requests.shift()!(line);
+        }
+        if (this.requests.length > 0 && !this.listening && !this.ended) {
+            this.input.on('data', this.onData);
+            this.input.resume();
+            this.listening = true;
+        }
+        else if (this.requests.length === 0 && this.listening) {
+            this.input.removeListener('data', this.onData);
+            this.input.pause();
+            this.listening = false;
+        }
+    }
+
+    protected onData(chunk: Buffer|string): void {
+        const text = this.partialLine + (typeof chunk === 'string' ? chunk :
+                this.decoder.write(chunk));
+        const lines = text.split(/\r?\n/);
+        this.partialLine = lines.pop()!;
+        this.lines = this.lines.concat(lines);
+        this.fulfill();
+    }
+
+    protected onEnd(): void {
+        if (this.partialLine !== '')
+            this.lines.push(this.partialLine);
+        this.partialLine = '';
+        this.ended = true;
+        this.fulfill();
+    }
+}
+
+//// SUPPORT FUNCTIONS ////////////////////////////////////////////////////////
+
+function isRawModeInput(stream: NodeJS.ReadableStream): stream is RawModeInput {
+    return typeof (<RawModeInput>stream).setRawMode === 'function';
+}
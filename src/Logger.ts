@@ -0,0 +1,104 @@
+
+import Util = require("util");
+import { MessageCatalog } from './MessageCatalog';
+
+//// CONSTANTS ////////////////////////////////////////////////////////////////
+
+const LEVELS: Logger.Level[] = ['debug', 'info', 'warn', 'error']; // in order
+
+//// TYPES ////////////////////////////////////////////////////////////////////
+
+export namespace Logger {
+    export type Level = 'debug'|'info'|'warn'|'error';
+}
+
+/**
+ * Logger writes diagnostic messages to a stream, normally stderr, keeping them apart from the data that commands write to stdout. Each message has a level, and the logger only writes messages at or above its configured level, in order of increasing severity: 'debug', 'info', 'warn', and 'error'. Warnings and errors are prefixed to identify them, as the messages `log.<level>` of the logger's catalog provide. Each logging method accepts `Util.format()` arguments.
+ */
+
+export class Logger
+{
+    protected stream: NodeJS.WritableStream; // stream to which to log
+    protected level: Logger.Level; // least severe level logged
+    protected catalog: MessageCatalog; // provides the form of each level
+
+    /**
+     * @param stream The stream to which to write messages.
+     * @param level The least severe level of message to write. Defaults to 'warn'.
+     * @param catalog The catalog of messages providing the prefixes of the levels. Defaults to the English catalog.
+     */
+
+    constructor(
+        stream: NodeJS.WritableStream,
+        level?: Logger.Level,
+        catalog?: MessageCatalog
+    ) {
+        this.stream = stream;
+        this.level = level || 'warn';
+        this.catalog = catalog || MessageCatalog.getEnglish();
+    }
+
+    /**
+     * Returns the least severe level of message that the logger writes.
+     */
+
+    getLevel(): Logger.Level {
+        return this.level;
+    }
+
+    /**
+     * Indicates whether the logger writes messages of the given level.
+     */
+
+    isEnabled(level: Logger.Level): boolean {
+        return LEVELS.indexOf(level) >= LEVELS.indexOf(this.level);
+    }
+
+    /**
+     * Logs a message useful for debugging, such as the details of the steps a command takes.
+     */
+
+    debug(message: string, ...formatArgs: any[]): void {
+        this.log('debug', message, ...formatArgs);
+    }
+
+    /**
+     * Logs an informational message, such as a report of progress.
+     */
+
+    info(message: string, ...formatArgs: any[]): void {
+        this.log('info', message, ...formatArgs);
+    }
+
+    /**
+     * Logs a warning of a problem that does not prevent the command from completing.
+     */
+
+    warn(message: string, ...formatArgs: any[]): void {
+        this.log('warn', message, ...formatArgs);
+    }
+
+    /**
+     * Logs an error. To end the command with an error, throw a CommandError instead.
+     */
+
+    error(message: string, ...formatArgs: any[]): void {
+        this.log('error', message, ...formatArgs);
+    }
+
+    /**
+     * Logs a message at the given level, if the logger writes messages of the level.
+     *
+     * @param level The level of the message.
+     * @param message The message, optionally using the `%` formatting codes of `Util.format()`.
+     * @param formatArgs Optional arguments that replace `%` formatting codes in `message`.
+     */
+
+    log(level: Logger.Level, message: string, ...formatArgs: any[]): void {
+        if (this.isEnabled(level)) {
+            this.stream.write(this.catalog.format('log.'+ level, {
+                message: Util.format(message, ...formatArgs)
+            }) +"\n");
+        }
+    }
+}
@@ -0,0 +1,278 @@
+//// TYPES ////////////////////////////////////////////////////////////////////
+
+export namespace MessageCatalog {
+    export interface Messages {
+        [id: string]: string; // template of a message, keyed by message id
+    }
+
+    export interface Catalogs {
+        [locale: string]: Messages; // messages of each locale, such as 'de'
+    }
+
+    export interface Text {
+        id: string; // id of the message in the catalog
+        params?: Params; // values of the message's placeholders
+    }
+
+    export interface Params {
+        [name: string]: string|number|Text; // value of placeholder {name}
+    }
+}
+
+//// CONFIGURATION ////////////////////////////////////////////////////////////
+
+const DEFAULT_LOCALE = 'en'; // locale of the framework's own messages
+const LOCALE_ENV_VARS = ['LC_ALL', 'LC_MESSAGES', 'LANG']; // by precedence
+const PLACEHOLDER_REGEX = /\{([A-Za-z][A-Za-z0-9_]*)\}/g;
+
+// the framework's messages in English, which other locales may override
+const ENGLISH: MessageCatalog.Messages = {
+    // errors
+    'error.unknown-option': "unknown option '{flag}'",
+    'error.unknown-option-suggest':
+            "unknown option '{flag}'; did you mean {suggestions}?",
+    'error.option-not-negatable': "option --{name} cannot be negated",
+    'error.option-requires-value': "option {flag} requires a value",
+    'error.missing-required-option': "missing required option {flag}",
+    'error.value-not-boolean': "{source} must be true or false",
+    'error.value-missing': "{source} requires a value",
+    'error.value-not-number': "{source} must be a number",
+    'error.value-not-allowed': "{source} must be one of: {values}",
+    'error.missing-argument': "missing argument <{name}>",
+    'error.missing-variadic-argument': "missing argument <{name}...>",
+    'error.unexpected-argument': 'UnexpectedArgument: "{arg}"',
+    'error.missing-command': "Missing command argument",
+    'error.missing-subcommand': "Missing subcommand argument for '{path}'",
+    'error.ambiguous-command': "ambiguous command '{path}' could be {matches}",
+    'error.unrecognized-command': "unrecognized command '{path}'",
+    'error.unrecognized-command-suggest':
+            "unrecognized command '{path}'; did you mean {suggestions}?",
+    'error.invalid-shell': "shell must be one of: {shells}",
+    'error.docs-usage': "usage: {usage}",
+    'error.invalid-config-file': "invalid configuration file {path}",
+    'error.config-not-object':
+            "configuration file {path} must contain a JSON object",
+    'error.unterminated-quote': "unterminated quote ({quote})",
+    'error.command-cancelled': "command cancelled",
+    'error.command-cancelled-by-signal': "command cancelled by {signal}",
+    'error.plugin-failed-to-load': "plugin '{plugin}' failed to load",
+    'error.plugin-invalid-exports': "plugin '{plugin}' does not export "+
+            "'commands' as groups of CommandSpecs",
+    'error.plugin-duplicate-name':
+            "plugin '{plugin}' provides the name of {label} more than once",
+    'error.plugin-conflict': "plugin '{plugin}' {label} conflicts with "+
+            "command '{command}' of {owner}",
+    'error.cannot-prompt':
+            "cannot prompt without an interactive terminal: {message}",
+    'error.input-ended': "input ended without a reply: {message}",
+    'error.usage-help': "{message} (-h for help)",
+    'error.caused-by': "caused by: {message}",
+    'error.rerun-for-details': "(rerun with {flag} for details)",
+
+    // descriptions of plugins and their commands
+    'plugin.command': "command '{name}'",
+    'plugin.alias': "alias '{alias}' of command '{name}'",
+    'plugin.owner': "plugin '{plugin}'",
+    'plugin.owner-tool': "the tool",
+
+    // hints
+    'hint.rerun-to-confirm': "rerun with {flag} to confirm",
+    'hint.rerun-dry-run': "rerun with --dry-run to see what it would do",
+    'hint.resolve-conflict':
+            "uninstall or rename one of the conflicting commands",
+
+    // descriptions of the sources of option values
+    'source.option': "option {flag}",
+    'source.env': "environment variable {name}",
+    'source.config': "option {name} in {label}",
+
+    // help
+    'help.unavailable': "Help is not available.",
+    'help.intro': "This tool supports the following commands:",
+    'help.subcommands-intro':
+            "This command supports the following subcommands:",
+    'help.options': "Options:",
+    'help.global-options': "Global options:",
+    'help.tool-options': "Tool options:",
+    'help.examples': "Examples:",
+    'help.see-also': "See also: {references}",
+    'help.destructive': "(destructive)",
+    'help.deprecated': "(deprecated)",
+    'help.deprecation-note': "Deprecated: {note}",
+    'help.alias': "(alias: {aliases})",
+    'help.aliases': "(aliases: {aliases})",
+    'help.plugin-commands': "Commands of plugin {plugin}",
+    'help.trailer': "Run 'help <command>' for help with a command.",
+    'help.option-notes': "{description} ({notes})",
+    'help.option-required': "required",
+    'help.option-default': "default: {value}",
+    'help.option-env': "env: {name}",
+
+    // descriptions of the options that the framework provides
+    'option.format': "Format of the output",
+    'option.json': "Output JSON, as with --format json",
+    'option.yes': "Answer yes to confirmations without prompting",
+    'option.no-input': "Never prompt, using defaults or failing instead",
+    'option.verbose': "Show more output; repeat as -vv for debugging output",
+    'option.quiet': "Show only errors, without progress",
+    'option.color': "When to color the help",
+    'option.version': "Show the version of the tool",
+    'option.dry-run': "Report what the command would do without doing it",
+    'option.confirm': "Run the command without asking for confirmation",
+
+    // prompts
+    'prompt.yes-no': "y/n",
+    'prompt.yes-default': "Y/n",
+    'prompt.no-default': "y/N",
+    'prompt.yes-answers': "y,yes",
+    'prompt.no-answers': "n,no",
+    'prompt.answer-yes-no': "please answer y or n",
+    'prompt.enter-number': "please enter a number",
+    'prompt.enter-whole-number': "please enter a whole number",
+    'prompt.enter-number-min': "please enter a number no less than {min}",
+    'prompt.enter-number-max': "please enter a number no more than {max}",
+    'prompt.select-one': "Enter a number:",
+    'prompt.select-one-invalid': "please enter one of the numbers listed",
+    'prompt.select-many': "Enter numbers:",
+    'prompt.select-many-invalid':
+            "please enter numbers of the choices listed, separated by commas",
+    'prompt.confirm-destructive': "Really run '{path}'?",
+
+    // notices
+    'notice.deprecated-command': "command '{path}' is deprecated",
+    'notice.deprecated-command-note': "command '{path}' is deprecated; {note}",
+    'notice.cancelling': "cancelling; interrupt again to exit immediately",
+    'notice.cancelling-line': "cancelling the command line",
+    'notice.cleanup-failed': "cleanup failed: {message}",
+    'notice.error-hook-failed': "error hook failed: {message}",
+    'notice.extra-next': "command called next() more than once",
+
+    // messages of the logger and of progress reporters
+    'log.debug': "debug: {message}",
+    'log.info': "{message}",
+    'log.warn': "warning: {message}",
+    'log.error': "error: {message}",
+    'progress.done': "{message} done",
+    'progress.failed': "{message} failed"
+};
+
+let english: MessageCatalog|null = null; // shared catalog of English only
+
+/**
+ * MessageCatalog provides the user-facing messages of a locale, each identified by a message id. A message is a template whose placeholders, such as `{name}`, take the values of parameters of the same names. A parameter may itself be a message id with parameters, which the catalog renders in the same locale. The catalog looks up each message in the messages of the locale, such as 'de_AT', then in those of the locale's language, such as 'de', and finally in English, which provides all of the framework's messages.
+ *
+ * The framework's errors carry the ids and parameters of their messages, so that CommandRunner can report them in the user's locale. Catalogs may also provide the summaries and descriptions of commands for help, under the ids `command.<path>.summary` and `command.<path>.description`, where `<path>` is the lowercase path of the command with its names separated by periods, as in `command.say.hello.summary`. Option definitions may likewise give their descriptions as the ids and parameters of messages (see OptionSchema).
+ */
+
+export class MessageCatalog
+{
+    static readonly DEFAULT_LOCALE = DEFAULT_LOCALE; // locale of framework
+
+    protected locale: string; // normalized locale of the messages
+    protected chain: MessageCatalog.Messages[]; // by decreasing precedence
+
+    /**
+     * @param locale The locale whose messages to provide, such as 'de_DE.UTF-8' or 'de-DE'. Defaults to the locale of the environment, as `getEnvLocale()` provides, or to English when the environment has no locale.
+     * @param catalogs The messages of each locale, keyed by locale, such as 'de' or 'de_AT'. Messages of the 'en' locale override the framework's English messages.
+     */
+
+    constructor(locale?: string|null, catalogs?: MessageCatalog.Catalogs) {
+        this.locale = normalizeLocale(locale || MessageCatalog.getEnvLocale() ||
+                DEFAULT_LOCALE);
+        const normCatalogs: MessageCatalog.Catalogs = {};
+        Object.keys(catalogs || {}).forEach(key => {
+            normCatalogs[normalizeLocale(key)] = catalogs![key];
+        });
+        const language = this.locale.split('_')[0];
+        this.chain = [this.locale, language, DEFAULT_LOCALE]
+            .filter((key, i, keys) => keys.indexOf(key) === i)
+            .map(key => normCatalogs[key])
+            .filter(messages => messages !== undefined)
+            .concat(ENGLISH);
+    }
+
+    /**
+     * Returns the locale of the environment, as given by the first of the environment variables `LC_ALL`, `LC_MESSAGES`, and `LANG` that is set, or null if none are set.
+     */
+
+    static getEnvLocale(): string|null {
+        for (const name of LOCALE_ENV_VARS) {
+            if (process.env[name])
+                return process.env[name]!;
+        }
+        return null;
+    }
+
+    /**
+     * Returns the shared catalog of the framework's English messages, which errors use for their default messages.
+     */
+
+    static getEnglish(): MessageCatalog {
+        if (english === null)
+            english = new MessageCatalog(DEFAULT_LOCALE);
+        return english;
+    }
+
+    /**
+     * Returns the normalized locale of the messages, such as 'de_de', lacking any encoding.
+     */
+
+    getLocale(): string {
+        return this.locale;
+    }
+
+    /**
+     * Returns the template of a message, or null if no locale of the catalog provides the message.
+     *
+     * @param id The id of the message.
+     */
+
+    lookup(id: string): string|null {
+        for (const messages of this.chain) {
+            if (messages[id] !== undefined)
+                return messages[id];
+        }
+        return null;
+    }
+
+    /**
+     * Returns a message with its placeholders replaced by the values of the given parameters. Placeholders lacking parameters remain in the message. Returns the message id when no locale of the catalog provides the message.
+     *
+     * @param id The id of the message.
+     * @param params Optional values of the placeholders, keyed by name.
+     * @returns the message in the catalog's locale.
+     */
+
+    format(id: string, params?: MessageCatalog.Params): string {
+        const template = this.lookup(id);
+        if (template === null)
+            return id;
+        return template.replace(PLACEHOLDER_REGEX, (placeholder, name) => {
+            const value = (params ? params[name] : undefined);
+            if (value === undefined)
+                return placeholder;
+            return (typeof value === 'object' ? this.render(value) :
+                    String(value));
+        });
+    }
+
+    /**
+     * Returns the message of a message id and its parameters, as `format()` provides.
+     *
+     * @param text The id and parameters of the message.
+     */
+
+    render(text: MessageCatalog.Text): string {
+        return this.format(text.id, text.params);
+    }
+}
+
+//// SUPPORT FUNCTIONS ////////////////////////////////////////////////////////
+
+function normalizeLocale(locale: string): string {
+    // drops any encoding and modifier, as in 'de_DE.UTF-8@euro'
+    const normLocale = locale.replace(/[.@].*$/, '').replace(/-/g, '_')
+            .toLowerCase();
+    return (normLocale === 'c' || normLocale === 'posix' || normLocale === '' ?
+            DEFAULT_LOCALE : normLocale);
+}
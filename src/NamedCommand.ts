@@ -1,7 +1,13 @@
 import Util = require("util");
 import Minimist = require("minimist");
+import { Cancellation } from './Cancellation';
 import { CommandRunner } from './CommandRunner';
 import { CommandSpec } from './CommandSpec';
+import { Logger } from './Logger';
+import { MessageCatalog } from './MessageCatalog';
+import { OutputFormatter } from './OutputFormatter';
+import { Spinner, ProgressBar } from './Progress';
+import { Prompter } from './Prompter';
 import * as Errors from './errors';
 
 /******************************************************************************
@@ -16,9 +22,11 @@ NamedCommand is an abstract class representing a named command. When the first a
  * runner | The calling CommandRunner instance
  * spec | The CommandSpec specification for the command.
  * name | The name of this command, as appears in the first term of the syntax
+ *
+ * The type parameter `A` is the type of the arguments that `parseArgs()` and `doCommand()` receive, which should be the type parameter of the command's CommandSpec. See CommandSpec for deriving this type from the command's declared options and positional arguments. The type parameter `R` is the type of the result that `doCommand()` provides, if any, which should be the second type parameter of the command's CommandSpec.
  */
 
-export abstract class NamedCommand
+export abstract class NamedCommand<A = Minimist.ParsedArgs, R = any>
 {
     //// CONFIGURATION ////////////////////////////////////////////////////////
     
@@ -44,7 +52,7 @@ export abstract class NamedCommand
     /**
      * Parses and validates the command line arguments. The arguments are provided in the form of the output of minimist, as described above. The modified arguments subsequently pass to `doDefaultCommand()`.
      *
-     * The `args` parameter contains the values of the defined options, and `args._` contains an array of all provided non-option arguments. `parseArgs()` must copy and remove from `args._` all of the non-option arguments it recognizes. CommandRunner will report the presence of unrecognized arguments if `parseArgs()` leaves `args._` non-empty. You may use `args._.shift()` or the convenience method `args.getNext()` to remove arguments, the latter of which returns null when there are no more non-option arguments. You may store the extracted values either as instance variables of `this` object or as additional properties of `args`.
+     * The `args` parameter contains the values of the defined options, and `args._` contains an array of all provided non-option arguments. When the command's CommandSpec parses the positional arguments that its syntax declares (see its `positionals` option), CommandRunner has already removed the declared arguments from `args._`, assigning them to properties of `args` named for the arguments, and has reported any missing required arguments. `parseArgs()` must copy and remove from `args._` all of the non-option arguments it recognizes. CommandRunner will report the presence of unrecognized arguments if `parseArgs()` leaves `args._` non-empty. You may use `args._.shift()` or the convenience method `args.getNext()` to remove arguments, the latter of which returns null when there are no more non-option arguments. You may store the extracted values either as instance variables of `this` object or as additional properties of `args`.
      *
      * This method should throw CommandUsageError if any arguments are invalid. This is also the place where the command should check for the proper presence or absence of arguments. If this method returns without throwing and with `args._` empty, `doCommand()` is called next with this method's final value of `args`.
      *
@@ -53,34 +61,65 @@ export abstract class NamedCommand
      * @param args The command line arguments as output by minimist and processed by `addOptions()`. Feel free to modify this object or copy values to instance variables of the named command. `args._` must be empty on return in order for CommandRunner to run the command.
      */
      
-    parseArgs(args: Minimist.ParsedArgs): void {
+    parseArgs(args: A): void {
         // assume no arguments by default
     }
     
     /**
      * Performs the command. The method is called with the arguments object that `parseArgs()` processed. Behavior may be a function of these arguments and a function of any instance variables that `parseArg()` established. The method must call the `next()` callback when done and may pass an instance of CommandError to `next()` to report an error to the calling application.
      *
+     * Alternatively, the method may return a promise, such as by being an `async` method, in which case the command is done when the promise settles, and the method need not call `next()`. A rejection of the promise reports the error to the calling application just as passing the error to `next()` would.
+     *
+     * The method may also provide a result by resolving the returned promise to it. A method that does not declare the `next` parameter may instead return the result directly, as the command is done when the method returns. A method that declares `next` is done only when it calls `next()` or when its returned promise settles, so it may return other values, such as the stream that `.pipe()` returns, without ending the command. `CommandRunner#invoke()` provides the result to its caller, and the outcome of `CommandRunner#run()` includes it.
+     *
      * @param args An object containing the arguments output of minimist after processing by `parseArgs()`, including the command line options that `addOptions()` defined. `args._` is not available to this method.
-     * @param next The next `function (err)` to call. The method must call this function when done and must not call it more than once.
+     * @param next The next `function (err)` to call. Unless the method returns a promise or does not declare this parameter, it must call this function when done and must not call it more than once.
+     * @returns nothing, optionally the result of the command, or optionally a promise that settles when the command completes, possibly resolving to the result
      */
     
-    abstract doCommand(args: Minimist.ParsedArgs,next: (err?: Error) => void)
-        : void;
+    abstract doCommand(args: A, next: (err?: Error) => void)
+        : void|R|Promise<void|R>;
     
     /**
-     * Returns help when `-h` or `--help` follows the command name on the command line. By default, the method returns only the syntax and summary lines that `getInfo()` provides. Override this method to produce more extensive help for the command. The output gets wrapped at a width configured for CommandRunner.
+     * Returns help when `-h` or `--help` follows the command name on the command line. By default, the method returns only the syntax and summary lines that `getInfo()` provides, followed by the description, options, examples, and "see also" references declared in the command's CommandSpec. Override this method to produce more extensive help for the command, calling `getOptionsHelp()` to include help for the declared options. The output gets wrapped at a width configured for CommandRunner.
      *
      * @param rightMargin The character column after which CommandRunner will wrap the return value. Useful here for overriding default wrapping behavior.
      * @return String providing help for this particular command, possibly extensive multiline help.
      */
     
     getHelp(rightMargin: number): string {
-        return this.runner.getHelpSummaryEntry(this.spec, rightMargin);
+        return this.runner.getHelpSummaryEntry(this.spec, rightMargin) +
+                this.runner.getHelpDescription(this.spec, rightMargin) +
+                this.getOptionsHelp(rightMargin) +
+                this.runner.getHelpExamples(this.spec, rightMargin) +
+                this.runner.getHelpSeeAlso(this.spec, rightMargin);
+    }
+    
+    /**
+     * Returns the specification of this command.
+     */
+    
+    getSpec(): CommandSpec {
+        return this.spec;
     }
 
     //// PROTECTED INSTANCE METHODS ///////////////////////////////////////////
     // subclasses may call these methods
     
+    /**
+     * Returns help for the options declared in the command's CommandSpec, or an empty string if the command declares no options.
+     *
+     * This is a support method for implementations of `getHelp()`.
+     *
+     * @param rightMargin The character column at which to wrap the help.
+     */
+    
+    getOptionsHelp(rightMargin: number): string {
+        const catalog = this.runner.getMessageCatalog();
+        return this.spec._optionSchema.getHelp(rightMargin,
+                catalog.format('help.options'), catalog);
+    }
+    
     /**
      * Shorthand method for creating CommandError exceptions. The method accepts `Util.format()` arguments. That is, the first argument is a string that may contain `%` formatting codes, and the following arguments replace the codes in the string.
      *
@@ -94,6 +133,132 @@ export abstract class NamedCommand
         return new Errors.CommandError(Util.format(message, ...formatArgs));
     }
 
+    /**
+     * Runs another registered command, such as a step of a larger task, and provides the command's result. The other command parses and validates the arguments as it would on the command line. See `CommandRunner#invoke()`.
+     *
+     * This is a support method for implementations of `doCommand()`.
+     *
+     * @param name The name or space-separated path of the command.
+     * @param input Optional command line arguments or object of option and argument values.
+     * @param options Optional configuration, accepting `output` to 'inherit', 'capture', or 'discard' the command's output. Defaults to 'inherit'.
+     * @returns a promise resolving to the command's result and any captured output.
+     */
+    
+    invoke<T = any>(
+        name: string|string[],
+        input?: string[]|CommandRunner.InvokeArgs,
+        options?: CommandRunner.InvokeOptions
+    ): Promise<CommandRunner.Invocation<T>> {
+        return this.runner.invoke<T>(name, input, options);
+    }
+    
+    /**
+     * Returns the Cancellation of the current run, which indicates whether the user cancelled the command, as by pressing Ctrl-C. Long-running commands should check `isCancelled()` or call `throwIfCancelled()` between steps, or register listeners via `onCancel()` to stop work in progress. See `CommandRunner#getCancellation()`.
+     *
+     * This is a support method for implementations of `doCommand()`.
+     */
+    
+    getCancellation(): Cancellation {
+        return this.runner.getCancellation();
+    }
+    
+    /**
+     * Indicates whether the command was given `--dry-run`, in which case it should report what it would do without doing it. Destructive commands receive this option automatically. See `CommandRunner#isDryRun()`.
+     *
+     * This is a support method for implementations of `doCommand()`.
+     */
+    
+    isDryRun(): boolean {
+        return this.runner.isDryRun();
+    }
+    
+    /**
+     * Registers a function that cleans up should the command be cancelled or fail, such as by removing temporary files. See `CommandRunner#addCleanup()`.
+     *
+     * This is a support method for implementations of `doCommand()`.
+     *
+     * @param cleanup The function performing the cleanup, which may return a promise.
+     */
+    
+    addCleanup(cleanup: () => void|Promise<void>): void {
+        this.runner.addCleanup(cleanup);
+    }
+    
+    /**
+     * Asks the user to confirm, using the streams of the CommandRunner. Resolves to true if the user types "y" or "yes" (in any letter case) and to false if the user types "n" or "no". When the user cannot answer, such as when the input is not a terminal, the method fails with a CommandError, unless `--yes` confirms all confirmations. See `Prompter#confirm()`.
+     *
+     * This is a support method for implementations of `doCommand()`.
+     *
+     * @param message Message to present to the user.
+     * @param defaultAnswer Optional answer when the user enters nothing or cannot answer.
+     * @returns a promise resolving to true when the user confirms.
+     */
+    
+    confirm(message: string, defaultAnswer?: boolean): Promise<boolean> {
+        return this.getPrompter().confirm(message, { default: defaultAnswer });
+    }
+    
+    /**
+     * Returns a Prompter for asking the user for text, passwords, numbers, selections, and confirmations, using the streams of the CommandRunner. See `CommandRunner#getPrompter()`.
+     *
+     * This is a support method for implementations of `doCommand()`.
+     */
+    
+    getPrompter(): Prompter {
+        return this.runner.getPrompter();
+    }
+    
+    /**
+     * Returns the catalog of messages in the locale of the user, for localizing the output of the command. See `CommandRunner#getMessageCatalog()`.
+     *
+     * This is a support method for implementations of `doCommand()`.
+     */
+    
+    getMessageCatalog(): MessageCatalog {
+        return this.runner.getMessageCatalog();
+    }
+    
+    /**
+     * Returns a Logger for writing debug, info, warning, and error messages to stderr, keeping diagnostics apart from the output that the command writes to stdout. The verbosity flags of the run determine which messages appear. See `CommandRunner#getLogger()`.
+     *
+     * This is a support method for implementations of `doCommand()`.
+     */
+    
+    getLogger(): Logger {
+        return this.runner.getLogger();
+    }
+    
+    /**
+     * Starts a Spinner reporting the progress of work of unknown duration to stderr. Call `succeed()`, `fail()`, or `stop()` on the spinner when the work is done. The spinner stops automatically should the command fail or be cancelled. See `CommandRunner#createSpinner()`.
+     *
+     * This is a support method for implementations of `doCommand()`.
+     *
+     * @param message Message describing the work in progress.
+     * @returns the started spinner.
+     */
+    
+    startSpinner(message: string): Spinner {
+        const spinner = this.runner.createSpinner(message).start();
+        this.addCleanup(() => spinner.stop());
+        return spinner;
+    }
+    
+    /**
+     * Starts a ProgressBar reporting the progress of work of known size to stderr. Call `tick()` or `update()` on the bar as work completes, and call `succeed()`, `fail()`, or `stop()` when the work is done. The bar stops automatically should the command fail or be cancelled. See `CommandRunner#createProgressBar()`.
+     *
+     * This is a support method for implementations of `doCommand()`.
+     *
+     * @param message Message describing the work in progress.
+     * @param total The amount of work to be done, such as a number of files.
+     * @returns the started progress bar.
+     */
+    
+    startProgress(message: string, total: number): ProgressBar {
+        const bar = this.runner.createProgressBar(message, total).start();
+        this.addCleanup(() => bar.stop());
+        return bar;
+    }
+    
     /**
      * Shorthand method for writing text to stdout. The method accepts `Util.format()` arguments. That is, the first argument is a string that may contain `%` formatting codes, and the following arguments replace the codes in the string.
      *
@@ -104,7 +269,7 @@ export abstract class NamedCommand
      */
     
     print(text: string, ...formatArgs: any[]): void {
-        process.stdout.write(Util.format(text, ...formatArgs));
+        this.runner.getStreams().stdout.write(Util.format(text, ...formatArgs));
     }
     
     /**
@@ -121,6 +286,45 @@ export abstract class NamedCommand
         this.print(text, ...formatArgs);
     }
     
+    /**
+     * Writes a single record to stdout, rendered in the output format selected for the run. See `OutputFormatter#formatRecord()`.
+     *
+     * This is a support method for implementations of `doCommand()`.
+     *
+     * @param record The record to write, its values keyed by field name.
+     */
+    
+    printRecord(record: OutputFormatter.Record): void {
+        this.print('%s', this.runner.getOutputFormatter().formatRecord(record));
+    }
+    
+    /**
+     * Writes a table of records to stdout, one row per record, rendered in the output format selected for the run. The text format fits the table to the help wrap width of the CommandRunner. See `OutputFormatter#formatTable()`.
+     *
+     * This is a support method for implementations of `doCommand()`.
+     *
+     * @param records The records to write, each keyed by field name.
+     * @param columns Names of the fields to write, in order. Defaults to all of the fields of the records.
+     */
+    
+    printTable(records: OutputFormatter.Record[], columns?: string[]): void {
+        this.print('%s', this.runner.getOutputFormatter()
+                .formatTable(records, columns));
+    }
+    
+    /**
+     * Writes a list of key/value pairs to stdout, rendered in the output format selected for the run. See `OutputFormatter#formatKeyValues()`.
+     *
+     * This is a support method for implementations of `doCommand()`.
+     *
+     * @param pairs The values to write, keyed by name, in order.
+     */
+    
+    printKeyValues(pairs: OutputFormatter.Record): void {
+        this.print('%s', this.runner.getOutputFormatter()
+                .formatKeyValues(pairs));
+    }
+    
     /**
      * Shorthand method for creating CommandUsageError exceptions. The method accepts `Util.format()` arguments. That is, the first argument is a string that may contain `%` formatting codes, and the following arguments replace the codes in the string.
      *
@@ -0,0 +1,394 @@
+
+import Minimist = require("minimist");
+import OptionHelp = require("option-help");
+import { CommandUtil } from './CommandUtil';
+import { MessageCatalog } from './MessageCatalog';
+import * as Errors from './errors';
+
+//// TYPES ////////////////////////////////////////////////////////////////////
+
+export namespace OptionSchema {
+    export type Type = 'string'|'number'|'boolean'|'enum'|'list';
+
+    export interface Definition {
+        type: Type; // type to which to coerce the option's value
+        description: string|MessageCatalog.Text; // for help, or its message
+        default?: any; // value of the option when not otherwise provided
+        required?: boolean; // whether the option must be provided
+        aliases?: string[]; // alternate names of the option, such as letters
+        env?: string; // environment variable providing a fallback value
+        values?: string[]; // allowed values of an 'enum' option
+        valueName?: string; // name of the option's value in help
+        complete?: Completer; // provides candidate values for completion
+    }
+
+    // returns values of an option that begin with a partial value
+    export type Completer = (partial: string) => string[]|Promise<string[]>;
+
+    export interface Definitions {
+        [name: string]: Definition;
+    }
+
+    // type of the value that apply() assigns an option, given its definition
+    export type Value<D> =
+        D extends { type: 'boolean' } ? boolean :
+        D extends { type: 'list' } ? string[] :
+        (D extends { type: 'number' } ? number : string) |
+            (D extends { required: true } ? never :
+                D extends { default: any } ? never : undefined);
+
+    // types of the values of options, keyed by option name
+    export type Values<D> = { [K in keyof D]: Value<D[K]> };
+
+    export interface Source {
+        label: string; // description of the source, such as a file path
+        values: { [name: string]: any }; // values keyed by option name
+    }
+
+    export interface ApplyOptions {
+        envPrefix?: string; // prefix of env vars of options lacking `env`
+        sources?: Source[]; // sources of values preceding defaults, in order
+        commandLineOnly?: string[]; // options ignoring the env and sources
+    }
+
+    export interface Origins {
+        [name: string]: string; // where the option's value came from
+    }
+}
+
+/**
+ * OptionSchema declares the command line options of a command, including the type, description, default value, and aliases of each option. It configures minimist for the options, coerces and validates the values that minimist outputs, and generates help for the options. Options of type 'string', 'number', and 'enum' take a single value, keeping only the last value when the option is repeated. Options of type 'list' collect all of the values provided for the option into an array. Options of type 'boolean' take no value.
+ */
+
+export class OptionSchema
+{
+    protected definitions: OptionSchema.Definitions; // definitions by name
+
+    /**
+     * @param definitions The options to declare, keyed by the long name of the option.
+     */
+
+    constructor(definitions?: OptionSchema.Definitions) {
+        this.definitions = definitions || {};
+        this.getNames().forEach(name => {
+
+            const def = this.definitions[name];
+            if (def.type === 'enum' && (!def.values || def.values.length === 0))
+                throw new Error(`enum option '${name}' is missing its values`);
+        });
+    }
+
+    /**
+     * Returns the given option definitions unchanged, but typed so as to retain the literal types of their properties, such as `type: 'number'` and `required: true`. Declare options via this method so that `OptionSchema.Values<typeof options>`, and thus `CommandSpec.define()`, can derive the types of the options' values, such as to share global options between a CommandRunner and the declarations of its commands.
+     *
+     * @param definitions The options to declare, keyed by the long name of the option.
+     * @returns the definitions.
+     */
+
+    static define<D extends OptionSchema.Definitions>(definitions: D): D {
+        return definitions;
+    }
+
+    /**
+     * Returns the names of the declared options, excluding aliases.
+     */
+
+    getNames(): string[] {
+        return Object.keys(this.definitions);
+    }
+
+    /**
+     * Returns the definition of the named option, or null if the option is not declared. The option may be named by one of its aliases.
+     */
+
+    getDefinition(name: string): OptionSchema.Definition|null {
+        const primaryName = this.getPrimaryName(name);
+        return (primaryName === null ? null : this.definitions[primaryName]);
+    }
+
+    /**
+     * Returns the name under which an option was declared, given either that name or one of its aliases, or null if the option is not declared.
+     */
+
+    getPrimaryName(name: string): string|null {
+        if (Object.prototype.hasOwnProperty.call(this.definitions, name))
+            return name; // ignoring names inherited, such as 'constructor'
+        const names = this.getNames();
+        for (let i = 0; i < names.length; ++i) {
+            const aliases = this.definitions[names[i]].aliases;
+            if (aliases && aliases.indexOf(name) >= 0)
+                return names[i];
+        }
+        return null;
+    }
+
+    /**
+     * Returns the command line flags of all of the declared options, including those of aliases, each flag beginning with one dash for single-letter names and two dashes otherwise.
+     */
+
+    getFlags(): string[] {
+        let flags: string[] = [];
+        this.getNames().forEach(name => {
+
+            const aliases = this.definitions[name].aliases || [];
+            flags = flags.concat([name].concat(aliases).map(toFlag));
+        });
+        return flags;
+    }
+
+    /**
+     * Indicates whether no options are declared.
+     */
+
+    isEmpty(): boolean {
+        return this.getNames().length === 0;
+    }
+
+    /**
+     * Adds the declared options to a minimist configuration options object.
+     *
+     * @param options A configuration object of options for minimist.
+     */
+
+    addTo(options: Minimist.Opts): void {
+        const moreOptions = {
+            boolean: <string[]>[],
+            string: <string[]>[],
+            alias: <{ [name: string]: string[] }>{},
+            default: <{ [name: string]: any }>{}
+        };
+        this.getNames().forEach(name => {
+
+            const def = this.definitions[name];
+            if (def.type === 'boolean') {
+                moreOptions.boolean.push(name);
+                // null distinguishes an absent boolean from a false one
+                moreOptions.default[name] = null;
+            }
+            else
+                moreOptions.string.push(name);
+            if (def.aliases)
+                moreOptions.alias[name] = def.aliases;
+        });
+        CommandUtil.addOptions(options, moreOptions);
+    }
+
+    /**
+     * Coerces and validates the values of the declared options, as output by minimist after configuring minimist via `addTo()`. An option that is not provided takes the value of its environment variable, if set. Otherwise it takes the value of the first of the given sources that provides the option, such as a configuration file, and otherwise takes its default value. Absent boolean options default to false, and absent list options default to an empty array. The resulting values are assigned to both the names and the aliases of the options.
+     *
+     * @param args Arguments output by minimist, which the method modifies.
+     * @param options Optional `envPrefix` from which to derive the environment variables of options that do not declare `env`, and `sources` of values to use when neither the command line nor the environment provides an option. A source may provide an option under its name or any of its aliases. Also accepts `commandLineOnly`, naming options that take their values only from the command line or their defaults, never from the environment or the sources.
+     * @returns descriptions of where the values of the options came from, keyed by option name.
+     * @throws CommandUsageError when a value is invalid or a required option is missing.
+     */
+
+    apply(
+        args: Minimist.ParsedArgs,
+        options?: OptionSchema.ApplyOptions
+    ): OptionSchema.Origins {
+        options = options || {};
+        const sources = options.sources || [];
+        const origins: OptionSchema.Origins = {};
+        this.getNames().forEach(name => {
+
+            const def = this.definitions[name];
+            const layered = ((options!.commandLineOnly || []).indexOf(name) < 0);
+            const envName = (layered ?
+                    this.getEnvName(name, options!.envPrefix) : null);
+            const names = [name].concat(def.aliases || []);
+            const source = (layered ? sources : []).filter(source =>
+                    names.some(anyName => source.values[anyName] !== undefined))[0];
+            let value = args[name];
+            let origin = 'command line';
+            if (value !== undefined && value !== null)
+                value = this.coerce(name, def, value, null);
+            else if (envName !== null && process.env[envName] !== undefined) {
+                origin = 'environment variable '+ envName;
+                value = this.coerce(name, def, process.env[envName],
+                        { id: 'source.env', params: { name: envName } });
+            }
+            else if (source) {
+                origin = source.label;
+                value = names.map(anyName => source.values[anyName])
+                        .filter(sourceValue => sourceValue !== undefined)[0];
+                value = this.coerce(name, def, value, {
+                    id: 'source.config',
+                    params: { name, label: source.label }
+                });
+            }
+            else if (def.default !== undefined) {
+                origin = 'default';
+                value = def.default;
+            }
+            else if (def.required) {
+                throw new Errors.CommandUsageError({
+                    id: 'error.missing-required-option',
+                    params: { flag: toFlag(name) }
+                });
+            }
+            else {
+                origin = 'unset';
+                if (def.type === 'boolean')
+                    value = false;
+                else if (def.type === 'list')
+                    value = [];
+                else
+                    value = undefined;
+            }
+
+            origins[name] = origin;
+            args[name] = value;
+            (def.aliases || []).forEach(alias => {
+                args[alias] = value;
+            });
+        });
+        return origins;
+    }
+
+    /**
+     * Returns the name of the environment variable that provides a value for the named option, or null if there is no such variable. The variable is the one that the option declares via `env`, or when the option declares none, a variable named for the option with the given prefix, in uppercase, with non-alphanumeric characters replaced with underscores. For example, the prefix `MYTOOL_` gives option `dry-run` the variable `MYTOOL_DRY_RUN`.
+     *
+     * @param name Name of the option.
+     * @param envPrefix Optional prefix for names of environment variables.
+     */
+
+    getEnvName(name: string, envPrefix?: string): string|null {
+        const def = this.getDefinition(name);
+        if (def === null)
+            return null;
+        if (def.env)
+            return def.env;
+        if (!envPrefix)
+            return null;
+        return envPrefix + toEnvName(this.getPrimaryName(name)!);
+    }
+
+    /**
+     * Returns help for the declared options, one option per entry, or an empty string if no options are declared.
+     *
+     * @param rightMargin The character column at which to wrap the help.
+     * @param heading The heading under which to list the options. Defaults to "Options:".
+     * @param catalog Optional catalog of the messages of the help. Defaults to the English catalog.
+     * @returns help for the options, ending with `\n` when not empty.
+     */
+
+    getHelp(
+        rightMargin: number,
+        heading?: string,
+        catalog?: MessageCatalog
+    ): string {
+        if (this.isEmpty())
+            return '';
+        return "\n"+ (heading || "Options:") +"\n"+
+                OptionHelp.generateHelpGroup(this.getHelpEntries(catalog), '  ',
+                        2, rightMargin, false);
+    }
+
+    /**
+     * Returns the help for each declared option as a pair of strings. The first string is a template showing the option's flags and value, such as `-t, --times <number>`. The second string describes the option, noting whether it is required, its default value, and its environment variable.
+     *
+     * @param catalog Optional catalog providing the notes and the descriptions that are messages. Defaults to the English catalog.
+     * @returns an array of `[template, description]` pairs, one per option.
+     */
+
+    getHelpEntries(catalog?: MessageCatalog): Array<[string, string]> {
+        const messages = catalog || MessageCatalog.getEnglish();
+        return this.getNames().map(name => {
+
+            const def = this.definitions[name];
+            const flags = (def.aliases || []).concat(name).map(toFlag);
+            let template = flags.join(', ');
+            if (def.type !== 'boolean')
+                template += ' <'+ getValueName(def) +'>';
+
+            let description = (typeof def.description === 'string' ?
+                    def.description : messages.render(def.description));
+            const notes: string[] = [];
+            if (def.required)
+                notes.push(messages.format('help.option-required'));
+            if (def.default !== undefined && def.default !== false) {
+                notes.push(messages.format('help.option-default',
+                        { value: String(def.default) }));
+            }
+            if (def.env)
+                notes.push(messages.format('help.option-env', { name: def.env }));
+            if (notes.length > 0) {
+                description = messages.format('help.option-notes',
+                        { description, notes: notes.join('; ') });
+            }
+            return <[string, string]>[template, description];
+        });
+    }
+
+    //// PROTECTED METHODS ////////////////////////////////////////////////////
+
+    protected coerce(
+        name: string,
+        def: OptionSchema.Definition,
+        raw: any,
+        source: MessageCatalog.Text|null // value's source, null for argv
+    ): any {
+        const fromArgv = (source === null);
+        source = source ||
+                { id: 'source.option', params: { flag: toFlag(name) } };
+
+        if (def.type === 'list') {
+            if (!fromArgv && !Array.isArray(raw))
+                return String(raw).split(',').filter(value => value !== '');
+            return (Array.isArray(raw) ? raw : [raw]).map(String);
+        }
+        if (Array.isArray(raw))
+            raw = raw[raw.length - 1]; // keep the last of repeated options
+
+        if (def.type === 'boolean') {
+            if (typeof raw === 'boolean')
+                return raw;
+            const text = String(raw).toLowerCase();
+            if (['1', 'true', 'yes', 'on'].indexOf(text) >= 0)
+                return true;
+            if (['', '0', 'false', 'no', 'off'].indexOf(text) >= 0)
+                return false;
+            throw new Errors.CommandUsageError(
+                    { id: 'error.value-not-boolean', params: { source } });
+        }
+
+        const text = (typeof raw === 'boolean' ? '' : String(raw));
+        if (text === '') {
+            throw new Errors.CommandUsageError(
+                    { id: 'error.value-missing', params: { source } });
+        }
+        if (def.type === 'number') {
+            const value = Number(text);
+            if (isNaN(value)) {
+                throw new Errors.CommandUsageError(
+                        { id: 'error.value-not-number', params: { source } });
+            }
+            return value;
+        }
+        if (def.type === 'enum' && def.values!.indexOf(text) < 0) {
+            throw new Errors.CommandUsageError({
+                id: 'error.value-not-allowed',
+                params: { source, values: def.values!.join(', ') }
+            });
+        }
+        return text;
+    }
+}
+
+//// SUPPORT FUNCTIONS ////////////////////////////////////////////////////////
+
+function toFlag(name: string): string {
+    return (name.length === 1 ? '-' : '--') + name;
+}
+
+function toEnvName(name: string): string {
+    return name.toUpperCase().replace(/[^A-Z0-9]+/g, '_');
+}
+
+function getValueName(def: OptionSchema.Definition): string {
+    if (def.valueName)
+        return def.valueName;
+    if (def.type === 'enum')
+        return def.values!.join('|');
+    return (def.type === 'list' ? 'value' : def.type);
+}
@@ -0,0 +1,280 @@
+
+import * as Errors from './errors';
+
+//// CONSTANTS ////////////////////////////////////////////////////////////////
+
+const COLUMN_GAP = '  '; // spaces separating columns of text tables
+const MIN_COLUMN_WIDTH = 8; // narrowest to which to shrink a column to fit
+
+//// TYPES ////////////////////////////////////////////////////////////////////
+
+export namespace OutputFormatter {
+    export type Format = 'text'|'json'|'ndjson'|'csv';
+
+    export interface Record {
+        [field: string]: any; // value of each field of the record
+    }
+}
+
+/**
+ * OutputFormatter renders the structured output of commands, which consists of records, tables of records, and lists of key/value pairs, in one of several formats. The 'text' format is for people, aligning keys and values and aligning table columns within a maximum width, wrapping cells as needed to fit. The 'json' format outputs each record, table, or key/value list as a JSON value, the 'ndjson' format outputs each record as a JSON object on a single line, and the 'csv' format outputs each record as a row of comma-separated values, preceded by a header row naming the fields.
+ */
+
+export class OutputFormatter
+{
+    static readonly FORMATS: OutputFormatter.Format[] =
+            ['text', 'json', 'ndjson', 'csv'];
+
+    protected format: OutputFormatter.Format; // format of the output
+    protected width: number; // width at which to fit text output
+    protected csvFields: string[]|null = null; // fields of CSV header written
+
+    /**
+     * @param format The format in which to render output.
+     * @param width Maximum width of text output, in characters, within which to fit tables.
+     */
+
+    constructor(format: OutputFormatter.Format, width: number) {
+        this.format = format;
+        this.width = width;
+    }
+
+    /**
+     * Indicates whether the given value names one of the formats.
+     */
+
+    static isFormat(value: string): value is OutputFormatter.Format {
+        return (<string[]>OutputFormatter.FORMATS).indexOf(value) >= 0;
+    }
+
+    /**
+     * Returns the format in which the formatter renders output.
+     */
+
+    getFormat(): OutputFormatter.Format {
+        return this.format;
+    }
+
+    /**
+     * Renders a single record. The text format renders the record as a list of fields and values, and the JSON format renders it as an object. The CSV format renders the header row only for the first record that the formatter renders, rendering the subsequent records as rows having the fields of the header.
+     *
+     * @param record The record to render.
+     * @returns the rendered record, ending with `\n`.
+     */
+
+    formatRecord(record: OutputFormatter.Record): string {
+        switch (this.format) {
+            case 'json':
+                return JSON.stringify(record, null, 2) +"\n";
+            case 'ndjson':
+                return JSON.stringify(record) +"\n";
+            case 'csv':
+                const rows: string[][] = [];
+                if (this.csvFields === null) {
+                    this.csvFields = Object.keys(record);
+                    rows.push(this.csvFields);
+                }
+                rows.push(this.csvFields.map(field => toText(record[field])));
+                return rows.map(cells => cells.map(toCsvCell).join(',') +
+                        "\r\n").join('');
+        }
+        return this.formatKeyValues(record);
+    }
+
+    /**
+     * Renders a table of records, one row per record. The columns of the table are either the given fields or all of the fields of the records, in order of first appearance. The JSON format renders the table as an array of objects having only the fields of the columns.
+     *
+     * @param records The records to render.
+     * @param columns Names of the fields to render as columns, in order. Defaults to all of the fields of the records.
+     * @returns the rendered table, ending with `\n` unless empty.
+     */
+
+    formatTable(
+        records: OutputFormatter.Record[],
+        columns?: string[]
+    ): string {
+        columns = columns || getFields(records);
+        const rows = records.map(record => {
+            const row: OutputFormatter.Record = {};
+            columns!.forEach(column => {
+                row[column] = record[column];
+            });
+            return row;
+        });
+
+        switch (this.format) {
+            case 'json':
+                return JSON.stringify(rows, null, 2) +"\n";
+            case 'ndjson':
+                return rows.map(row => JSON.stringify(row) +"\n").join('');
+            case 'csv':
+                return [columns].concat(rows.map(row =>
+                    columns!.map(column => toText(row[column]))
+                )).map(cells => cells.map(toCsvCell).join(',') +"\r\n")
+                    .join('');
+        }
+        return this.formatTextTable([columns].concat(rows.map(row =>
+                columns!.map(column => toText(row[column])))));
+    }
+
+    /**
+     * Renders a list of key/value pairs. The text format aligns the values to the right of the keys. The JSON and NDJSON formats render the pairs as an object, and the CSV format renders a row per pair.
+     *
+     * @param pairs The values to render, keyed by name, in order.
+     * @returns the rendered pairs, ending with `\n` unless empty.
+     */
+
+    formatKeyValues(pairs: OutputFormatter.Record): string {
+        const keys = Object.keys(pairs);
+        switch (this.format) {
+            case 'json':
+                return JSON.stringify(pairs, null, 2) +"\n";
+            case 'ndjson':
+                return JSON.stringify(pairs) +"\n";
+            case 'csv':
+                return [['key', 'value']].concat(keys.map(key =>
+                    [key, toText(pairs[key])]
+                )).map(cells => cells.map(toCsvCell).join(',') +"\r\n")
+                    .join('');
+        }
+        const keyWidth = Math.max(0, ...keys.map(key => key.length + 1));
+        return keys.map(key => {
+            const lines = toText(pairs[key]).split("\n");
+            const indent = ' '.repeat(keyWidth + 1);
+            return padEnd(key +':', keyWidth) +' '+ lines.join("\n"+ indent)
+                    .replace(/ +$/gm, '') +"\n";
+        }).join('');
+    }
+
+    /**
+     * Renders an error as a structured object having an `error` property, for the JSON and NDJSON formats. The object gives the error's class name, message, and any message id and parameters, exit code, hint, and chain of causes.
+     *
+     * @param err The error to render.
+     * @param exitCode The exit code with which the process exits for the error.
+     * @param debug Whether to include the stack of the error.
+     * @returns the rendered error, ending with `\n`.
+     */
+
+    formatError(err: Error, exitCode: number, debug: boolean): string {
+        const toObject = (err: Error): OutputFormatter.Record => {
+            const object: OutputFormatter.Record = {
+                name: err.name,
+                message: err.message
+            };
+            if (err instanceof Errors.CommandError) {
+                if (err.text) {
+                    object.messageId = err.text.id;
+                    if (err.text.params)
+                        object.params = err.text.params;
+                }
+                if (err.hint)
+                    object.hint = err.hint;
+            }
+            if (debug && err.stack)
+                object.stack = err.stack;
+            if (err instanceof Errors.CommandError &&
+                    err.cause instanceof Error)
+                object.cause = toObject(err.cause);
+            return object;
+        };
+        const object = toObject(err);
+        object.exitCode = exitCode;
+        return JSON.stringify({ error: object },
+                null, this.format === 'json' ? 2 : undefined) +"\n";
+    }
+
+    //// PROTECTED METHODS ////////////////////////////////////////////////////
+
+    protected formatTextTable(rows: string[][]): string {
+        if (rows[0].length === 0)
+            return '';
+        const widths = rows[0].map((heading, i) => Math.max(...rows.map(row =>
+                Math.max(...row[i].split("\n").map(line => line.length)))));
+
+        // Shrink the widest column until the table fits or no column can
+        // shrink further.
+
+        const available = this.width - COLUMN_GAP.length * (widths.length - 1);
+        let total = widths.reduce((sum, width) => sum + width, 0);
+        while (total > available) {
+            const widest = widths.indexOf(Math.max(...widths));
+            if (widths[widest] <= MIN_COLUMN_WIDTH)
+                break;
+            --widths[widest];
+            --total;
+        }
+
+        return rows.map(row => {
+            const cells = row.map((cell, i) => wrapCell(cell, widths[i]));
+            const height = Math.max(...cells.map(lines => lines.length));
+            let text = '';
+            for (let line = 0; line < height; ++line) {
+                text += cells.map((lines, i) =>
+                    padEnd(lines[line] || '', widths[i])
+                ).join(COLUMN_GAP).replace(/ +$/, '') +"\n";
+            }
+            return text;
+        }).join('');
+    }
+}
+
+//// SUPPORT FUNCTIONS ////////////////////////////////////////////////////////
+
+function getFields(records: OutputFormatter.Record[]): string[] {
+    const fields: string[] = [];
+    records.forEach(record => {
+        Object.keys(record).forEach(field => {
+            if (fields.indexOf(field) < 0)
+                fields.push(field);
+        });
+    });
+    return fields;
+}
+
+function toText(value: any): string {
+    if (value === undefined || value === null)
+        return '';
+    if (value instanceof Date)
+        return value.toISOString();
+    if (typeof value === 'object')
+        return JSON.stringify(value);
+    return String(value);
+}
+
+function toCsvCell(text: string): string {
+    if (!/[",\r\n]/.test(text))
+        return text;
+    return '"'+ text.replace(/"/g, '""') +'"';
+}
+
+function padEnd(text: string, width: number): string {
+    return text + ' '.repeat(Math.max(0, width - text.length));
+}
+
+function wrapCell(text: string, width: number): string[] {
+    const lines: string[] = [];
+    text.split("\n").forEach(paragraph => {
+        let line = '';
+        paragraph.split(' ').forEach(word => {
+            while (word.length > width) {
+                // break words that are too long for the column
+                if (line !== '') {
+                    lines.push(line);
+                    line = '';
+                }
+                lines.push(word.substr(0, width));
+                word = word.substr(width);
+            }
+            if (line === '')
+                line = word;
+            else if (line.length + 1 + word.length <= width)
+                line += ' '+ word;
+            else {
+                lines.push(line);
+                line = word;
+            }
+        });
+        lines.push(line);
+    });
+    return lines;
+}
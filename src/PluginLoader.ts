@@ -0,0 +1,247 @@
+
+import FS = require("fs");
+import Path = require("path");
+import { CommandRunner } from './CommandRunner';
+import { CommandSpec } from './CommandSpec';
+import { MessageCatalog } from './MessageCatalog';
+import * as Errors from './errors';
+
+//// TYPES ////////////////////////////////////////////////////////////////////
+
+export namespace PluginLoader {
+    export interface Options {
+        prefix?: string; // prefix of the names of plugin packages
+        searchPaths?: string[]; // node_modules directories to search
+        directories?: string[]; // directories whose modules are plugins
+    }
+
+    export interface Module {
+        name: string; // name of the plugin, such as its package name
+        path: string; // path from which to require the plugin's module
+    }
+
+    export interface Plugin extends Module {
+        groups: CommandSpec[][]; // groups of top-level commands registered
+    }
+
+    // provides the command groups of a plugin, given the CommandRunner
+    export type Provider = (runner: CommandRunner) => CommandSpec[][];
+}
+
+// module whose node_modules search paths the installed Node typings may lack
+interface SearchableModule extends NodeModule {
+    paths: string[]; // node_modules directories from which it requires
+}
+
+/**
+ * PluginLoader discovers plugins that provide commands and adds their commands to a CommandRunner. A plugin is either an installed package whose name begins with a configured prefix, optionally within a scope, as in `mytool-plugin-deploy` or `@team/mytool-plugin-deploy`, or a module residing in a configured plugins directory, either as a `.js` file or as a subdirectory. The module of a plugin must export `commands`, which is either an array of groups of CommandSpecs, a single group of CommandSpecs, or a function that receives the CommandRunner and returns an array of groups.
+ *
+ * Help lists the commands of each plugin under a heading naming the plugin. The loader checks the names and aliases of a plugin's commands against those of the commands already added, and it reports a conflict with a PluginError naming the plugin and the conflicting command, rather than adding any of the plugin's commands.
+ */
+
+export class PluginLoader
+{
+    protected runner: CommandRunner; // runner to which to add commands
+    protected prefix: string|null; // prefix of the names of plugin packages
+    protected searchPaths: string[]; // node_modules directories to search
+    protected directories: string[]; // directories whose modules are plugins
+
+    protected static owners: WeakMap<CommandSpec, string> =
+            new WeakMap(); // plugins owning commands
+
+    /**
+     * @param runner The CommandRunner to which to add the commands of plugins.
+     * @param options Optional configuration, accepting a package name `prefix` by which to discover installed plugin packages, the `searchPaths` of the node_modules directories in which to look for these packages (defaults to the module search paths of the main module), and `directories` whose modules are all plugins. Without a `prefix` or `directories`, the loader discovers no plugins.
+     */
+
+    constructor(runner: CommandRunner, options?: PluginLoader.Options) {
+        options = options || {};
+        this.runner = runner;
+        this.prefix = options.prefix || null;
+        this.searchPaths = options.searchPaths ||
+                (require.main ? (<SearchableModule>require.main).paths : []);
+        this.directories = options.directories || [];
+    }
+
+    /**
+     * Discovers and loads all of the plugins, adding their commands to the CommandRunner. Plugins load in the order that `discover()` finds them.
+     *
+     * @returns the plugins loaded.
+     * @throws PluginError when a plugin fails to load or has a command whose name or alias is already taken.
+     */
+
+    load(): PluginLoader.Plugin[] {
+        return this.discover().map(module => this.loadModule(module));
+    }
+
+    /**
+     * Returns the modules of the plugins found, without loading them. Packages are found first, in order of the search paths, and then the modules of the plugin directories, in order of the directories. A package found in multiple search paths is only found in the first of these paths.
+     */
+
+    discover(): PluginLoader.Module[] {
+        const modules: PluginLoader.Module[] = [];
+        const addModule = (name: string, path: string) => {
+            if (!modules.some(module => module.name === name))
+                modules.push({ name, path });
+        };
+
+        if (this.prefix !== null) {
+            const prefix = this.prefix;
+            this.searchPaths.forEach(searchPath => {
+                listDirectory(searchPath).forEach(entry => {
+
+                    if (entry.substr(0, prefix.length) === prefix)
+                        addModule(entry, Path.join(searchPath, entry));
+                    else if (entry[0] === '@') {
+                        const scopePath = Path.join(searchPath, entry);
+                        listDirectory(scopePath).forEach(scopedEntry => {
+                            if (scopedEntry.substr(0, prefix.length) === prefix) {
+                                addModule(entry +'/'+ scopedEntry,
+                                        Path.join(scopePath, scopedEntry));
+                            }
+                        });
+                    }
+                });
+            });
+        }
+
+        this.directories.forEach(directory => {
+            listDirectory(directory).forEach(entry => {
+
+                const path = Path.resolve(directory, entry);
+                if (Path.extname(entry) === '.js')
+                    addModule(Path.basename(entry, '.js'), path);
+                else if (isDirectory(path))
+                    addModule(entry, path);
+            });
+        });
+        return modules;
+    }
+
+    /**
+     * Loads a single plugin module and adds its commands to the CommandRunner, each group of commands under the heading that `getGroupHeading()` provides for the plugin.
+     *
+     * @param module The name of the plugin and the path of its module.
+     * @returns the plugin loaded.
+     * @throws PluginError when the module fails to load, does not export commands, or has a command whose name or alias is already taken.
+     */
+
+    loadModule(module: PluginLoader.Module): PluginLoader.Plugin {
+        let exported: any;
+        try {
+            exported = require(module.path);
+        }
+        catch (err) {
+            throw new Errors.PluginError(module.name,
+                    { id: 'error.plugin-failed-to-load' }, { cause: err });
+        }
+
+        let commands = exported && exported.commands;
+        if (typeof commands === 'function')
+            commands = (<PluginLoader.Provider>commands)(this.runner);
+        if (Array.isArray(commands) && commands.length > 0 &&
+                commands.every(isCommandSpec))
+            commands = [commands]; // a single group
+        if (!Array.isArray(commands) || commands.length === 0 ||
+                !commands.every((group: any) => Array.isArray(group) &&
+                    group.every(isCommandSpec)))
+        {
+            throw new Errors.PluginError(module.name,
+                    { id: 'error.plugin-invalid-exports' });
+        }
+        const groups = <CommandSpec[][]>commands;
+
+        this.checkNames(module.name, groups);
+        groups.forEach((group, i) => {
+            this.runner.addCommands(group,
+                    i === 0 ? this.getGroupHeading(module) : undefined);
+        });
+        groups.forEach(group => {
+            group.forEach(spec => PluginLoader.owners.set(spec, module.name));
+        });
+        return { name: module.name, path: module.path, groups };
+    }
+
+    /**
+     * Returns the heading under which help lists the commands of a plugin. Override this method to customize the heading.
+     *
+     * @param module The name of the plugin and the path of its module.
+     */
+
+    getGroupHeading(module: PluginLoader.Module): string {
+        return this.runner.getMessageCatalog().format('help.plugin-commands',
+                { plugin: module.name });
+    }
+
+    //// PROTECTED METHODS ////////////////////////////////////////////////////
+
+    protected checkNames(pluginName: string, groups: CommandSpec[][]): void {
+        const pluginNames: string[] = [];
+        groups.forEach(group => {
+            group.forEach(spec => {
+                [spec._normName].concat(spec._normAliases).forEach(name => {
+
+                    const label: MessageCatalog.Text =
+                            (name === spec._normName ? {
+                                id: 'plugin.command',
+                                params: { name }
+                            } : {
+                                id: 'plugin.alias',
+                                params: { alias: name, name: spec._normName }
+                            });
+                    if (pluginNames.indexOf(name) >= 0) {
+                        throw new Errors.PluginError(pluginName, {
+                            id: 'error.plugin-duplicate-name',
+                            params: { label }
+                        });
+                    }
+                    pluginNames.push(name);
+
+                    const taken = this.runner.getCommandSpecs().filter(
+                            takenSpec => takenSpec.hasName(name))[0];
+                    if (taken) {
+                        const owner = PluginLoader.owners.get(taken);
+                        throw new Errors.PluginError(pluginName, {
+                            id: 'error.plugin-conflict',
+                            params: {
+                                label,
+                                command: taken._normName,
+                                owner: (owner ? {
+                                    id: 'plugin.owner',
+                                    params: { plugin: owner }
+                                } : { id: 'plugin.owner-tool' })
+                            }
+                        }, { hint: { id: 'hint.resolve-conflict' } });
+                    }
+                });
+            });
+        });
+    }
+}
+
+//// SUPPORT FUNCTIONS ////////////////////////////////////////////////////////
+
+function isCommandSpec(value: any): boolean {
+    // plugins may depend on their own copy of this module
+    return (value instanceof CommandSpec || !!value &&
+            typeof value.createCommand === 'function' &&
+            typeof value._normName === 'string');
+}
+
+function listDirectory(dirPath: string): string[] {
+    try {
+        return FS.readdirSync(dirPath).filter(entry => entry[0] !== '.').sort();
+    }
+    catch (err) {
+        return []; // a missing directory provides no plugins
+    }
+}
+
+function isDirectory(path: string): boolean {
+    try {
+        return FS.statSync(path).isDirectory();
+    }
+    catch (err) {
+        return false;
+    }
+}
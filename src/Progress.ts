@@ -0,0 +1,249 @@
+
+import { CommandUtil } from './CommandUtil';
+import { MessageCatalog } from './MessageCatalog';
+
+//// CONSTANTS ////////////////////////////////////////////////////////////////
+
+const SPINNER_FRAMES = ['|', '/', '-', '\\']; // frames of the spinner
+const FRAME_INTERVAL_MILLIS = 100; // interval between spinner frames
+const DEFAULT_PLAIN_INTERVAL_MILLIS = 10000; // interval between plain lines
+const DEFAULT_BAR_WIDTH = 20; // width of the progress bar in characters
+const CLEAR_LINE = "\r\x1b[K"; // returns to and clears the terminal line
+
+//// TYPES ////////////////////////////////////////////////////////////////////
+
+export namespace Progress {
+    export interface Options {
+        enabled?: boolean; // whether to render progress at all
+        interactive?: boolean; // whether to animate on a single line
+        plainInterval?: number; // millis between lines when not interactive
+        catalog?: MessageCatalog; // messages of the final lines
+    }
+
+    export interface BarOptions extends Options {
+        width?: number; // width of the bar in characters
+    }
+}
+
+/**
+ * Progress is the base class of the progress reporters, Spinner and ProgressBar, which render the progress of a long-running command to a stream, normally stderr. When the stream is a terminal, a reporter animates on a single line, overwriting the line as progress changes and leaving a final line when done. Otherwise, the reporter writes a plain line when it starts, a plain line periodically while progress continues, and a final line when done, so that logs and pipes receive a readable record of the progress.
+ */
+
+export abstract class Progress
+{
+    protected stream: NodeJS.WritableStream; // stream to which to render
+    protected message: string; // message describing the work in progress
+    protected enabled: boolean; // whether to render progress at all
+    protected interactive: boolean; // whether to animate on a single line
+    protected plainInterval: number; // millis between plain lines
+    protected catalog: MessageCatalog; // messages of the final lines
+    protected startTime = 0; // time at which progress started
+    protected lastLineTime = 0; // time at which the last plain line was written
+    protected timer: NodeJS.Timer|null = null; // timer animating the progress
+
+    /**
+     * @param stream The stream to which to render the progress.
+     * @param message Message describing the work in progress.
+     * @param options Optional configuration, accepting `enabled` to indicate whether to render anything at all (defaults to true), `interactive` to indicate whether to animate on a single line (defaults to whether the stream is a terminal), `plainInterval`, the milliseconds between plain lines when not interactive (defaults to 10 seconds), and `catalog`, the catalog of messages providing the final lines of success and failure (defaults to the English catalog).
+     */
+
+    constructor(
+        stream: NodeJS.WritableStream,
+        message: string,
+        options?: Progress.Options
+    ) {
+        options = options || {};
+        this.stream = stream;
+        this.message = message;
+        this.enabled = (options.enabled === undefined ? true : options.enabled);
+        this.interactive = (options.interactive === undefined ?
+                CommandUtil.isTTY(stream) : options.interactive);
+        this.plainInterval = options.plainInterval ||
+                DEFAULT_PLAIN_INTERVAL_MILLIS;
+        this.catalog = options.catalog || MessageCatalog.getEnglish();
+    }
+
+    /**
+     * Starts rendering the progress.
+     *
+     * @returns this reporter, for chaining.
+     */
+
+    start(): this {
+        if (this.timer !== null)
+            return this;
+        this.startTime = this.lastLineTime = Date.now();
+        if (this.enabled && !this.interactive)
+            this.stream.write(this.getPlainLine() +"\n");
+        this.timer = setInterval(() => this.render(),
+                this.interactive ? FRAME_INTERVAL_MILLIS : this.plainInterval);
+        this.timer.unref(); // never keep the process alive for progress
+        this.render();
+        return this;
+    }
+
+    /**
+     * Changes the message describing the work in progress.
+     */
+
+    setMessage(message: string): void {
+        this.message = message;
+        if (!this.interactive)
+            this.render(); // the timer redraws animated lines
+    }
+
+    /**
+     * Stops rendering the progress, ending with a line reporting success.
+     *
+     * @param message Optional final message. Defaults to the message of the work in progress followed by "done", as the catalog's message `progress.done` provides.
+     */
+
+    succeed(message?: string): void {
+        this.stop(message ||
+                this.catalog.format('progress.done', { message: this.message }));
+    }
+
+    /**
+     * Stops rendering the progress, ending with a line reporting failure.
+     *
+     * @param message Optional final message. Defaults to the message of the work in progress followed by "failed", as the catalog's message `progress.failed` provides.
+     */
+
+    fail(message?: string): void {
+        this.stop(message ||
+                this.catalog.format('progress.failed', { message: this.message }));
+    }
+
+    /**
+     * Stops rendering the progress, clearing any animated line.
+     *
+     * @param finalLine Optional line to write in place of the progress.
+     */
+
+    stop(finalLine?: string): void {
+        const running = (this.timer !== null);
+        if (this.timer !== null) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+        if (!this.enabled)
+            return;
+        if (this.interactive && running)
+            this.stream.write(CLEAR_LINE);
+        if (finalLine !== undefined)
+            this.stream.write(finalLine +"\n");
+    }
+
+    //// PROTECTED METHODS ////////////////////////////////////////////////////
+
+    protected render(): void {
+        if (!this.enabled || this.timer === null)
+            return;
+        if (this.interactive)
+            this.stream.write(CLEAR_LINE + this.getAnimatedLine());
+        else if (Date.now() - this.lastLineTime >= this.plainInterval) {
+            this.lastLineTime = Date.now();
+            this.stream.write(this.getPlainLine() +"\n");
+        }
+    }
+
+    protected getElapsedSeconds(): number {
+        return Math.round((Date.now() - this.startTime) / 1000);
+    }
+
+    // returns the line to show on a terminal, which is redrawn frequently
+    protected abstract getAnimatedLine(): string;
+
+    // returns the line to write periodically when not on a terminal
+    protected abstract getPlainLine(): string;
+}
+
+/**
+ * Spinner reports the progress of work of unknown duration. On a terminal, it animates a spinning character before the message. Otherwise, it periodically writes the message along with the time elapsed.
+ */
+
+export class Spinner extends Progress
+{
+    protected frame = 0; // index of the next frame of the spinner
+
+    protected getAnimatedLine(): string {
+        const frame = SPINNER_FRAMES[this.frame];
+        this.frame = (this.frame + 1) % SPINNER_FRAMES.length;
+        return frame +' '+ this.message;
+    }
+
+    protected getPlainLine(): string {
+        const elapsed = this.getElapsedSeconds();
+        return this.message + (elapsed > 0 ? ` (${elapsed}s)` : '');
+    }
+}
+
+/**
+ * ProgressBar reports the progress of work of known size, showing the portion complete. On a terminal, it animates a bar followed by the percentage and count complete. Otherwise, it periodically writes the percentage and count complete.
+ */
+
+export class ProgressBar extends Progress
+{
+    protected total: number; // amount of work to be done
+    protected current = 0; // amount of work done
+    protected width: number; // width of the bar in characters
+
+    /**
+     * @param stream The stream to which to render the progress.
+     * @param message Message describing the work in progress.
+     * @param total The amount of work to be done, such as a number of files.
+     * @param options Optional configuration, accepting the options of Progress, plus the `width` of the bar in characters (defaults to 20).
+     */
+
+    constructor(
+        stream: NodeJS.WritableStream,
+        message: string,
+        total: number,
+        options?: Progress.BarOptions
+    ) {
+        super(stream, message, options);
+        this.total = total;
+        this.width = (options && options.width) || DEFAULT_BAR_WIDTH;
+    }
+
+    /**
+     * Adds to the amount of work done.
+     *
+     * @param amount The amount of work just done. Defaults to 1.
+     */
+
+    tick(amount?: number): void {
+        this.update(this.current + (amount === undefined ? 1 : amount));
+    }
+
+    /**
+     * Sets the amount of work done.
+     *
+     * @param current The amount of work done, up to the total.
+     */
+
+    update(current: number): void {
+        this.current = Math.max(0, Math.min(current, this.total));
+        if (!this.interactive)
+            this.render(); // the timer redraws animated lines
+    }
+
+    protected getAnimatedLine(): string {
+        const filled = Math.round(this.getFraction() * this.width);
+        return this.message +' ['+ '#'.repeat(filled) +
+                '-'.repeat(this.width - filled) +'] '+ this.getCounts();
+    }
+
+    protected getPlainLine(): string {
+        return this.message +' '+ this.getCounts();
+    }
+
+    protected getFraction(): number {
+        return (this.total > 0 ? this.current / this.total : 1);
+    }
+
+    protected getCounts(): string {
+        return Math.floor(this.getFraction() * 100) +'% ('+ this.current +'/'+
+                this.total +')';
+    }
+}
@@ -0,0 +1,339 @@
+
+import { CommandUtil } from './CommandUtil';
+import { LineReader } from './LineReader';
+import { MessageCatalog } from './MessageCatalog';
+import * as Errors from './errors';
+
+//// TYPES ////////////////////////////////////////////////////////////////////
+
+export namespace Prompter {
+    export interface Options {
+        interactive?: boolean; // whether the user can answer prompts
+        assumeYes?: boolean; // whether to confirm without prompting
+        yesFlag?: string; // option that assumes yes, for suggesting
+        catalog?: MessageCatalog; // catalog of the messages of prompts
+    }
+
+    export interface TextOptions {
+        default?: string; // value when the user enters nothing
+        // returns a message describing why a value is invalid, or null
+        validate?: (value: string) => string|null;
+    }
+
+    export interface NumberOptions {
+        default?: number; // value when the user enters nothing
+        min?: number; // minimum valid value
+        max?: number; // maximum valid value
+        integer?: boolean; // whether the value must be an integer
+    }
+
+    export interface Choice {
+        value: string; // value that selecting the choice provides
+        label?: string; // description of the choice, defaulting to value
+    }
+
+    export interface SelectOptions {
+        default?: string; // value when the user enters nothing
+    }
+
+    export interface MultiSelectOptions {
+        default?: string[]; // values when the user enters nothing
+    }
+
+    export interface ConfirmOptions {
+        default?: boolean; // answer when the user enters nothing
+    }
+}
+
+/**
+ * Prompter asks the user for typed values, including text, hidden passwords, validated numbers, selections from lists, and confirmations. Each prompt repeats until the user provides a valid value, and a prompt having a default value accepts an empty reply as the default.
+ *
+ * When the Prompter is not interactive, as when the input is not a terminal, prompts do not wait for the user. Instead, each prompt resolves to its default value, or when there is no default, fails with a CommandError. When configured to assume yes, confirmations resolve to true without prompting. A prompt whose input ends also resolves to its default or fails with a CommandError.
+ */
+
+export class Prompter
+{
+    protected streams: CommandUtil.PromptStreams; // streams for prompting
+    protected interactive: boolean; // whether the user can answer prompts
+    protected assumeYes: boolean; // whether to confirm without prompting
+    protected yesFlag: string|null; // option that assumes yes, if any
+    protected catalog: MessageCatalog; // catalog of the messages of prompts
+
+    /**
+     * @param streams The streams from which to read replies and to which to write prompts.
+     * @param options Optional configuration, accepting `interactive` to indicate whether the user can answer prompts (defaults to whether the input stream is a terminal), `assumeYes` to confirm without prompting (defaults to false), and `yesFlag` naming the option that assumes yes, which errors of unanswerable confirmations suggest, and `catalog` providing the messages and answers of the prompts (defaults to the English catalog).
+     */
+
+    constructor(streams: CommandUtil.PromptStreams, options?: Prompter.Options) {
+        options = options || {};
+        this.streams = streams;
+        this.interactive = (options.interactive === undefined ?
+                CommandUtil.isTTY(streams.stdin) : options.interactive);
+        this.assumeYes = options.assumeYes || false;
+        this.yesFlag = options.yesFlag || null;
+        this.catalog = options.catalog || MessageCatalog.getEnglish();
+    }
+
+    /**
+     * Indicates whether prompts wait for the user to reply.
+     */
+
+    isInteractive(): boolean {
+        return this.interactive;
+    }
+
+    /**
+     * Prompts for a line of text.
+     *
+     * @param message Message asking for the text.
+     * @param options Optional `default` text and `validate` function.
+     * @returns a promise resolving to the text entered, without leading or trailing spaces.
+     * @throws CommandError when the prompt cannot be answered and has no default.
+     */
+
+    text(message: string, options?: Prompter.TextOptions): Promise<string> {
+        options = options || {};
+        const validate = options.validate || (() => null);
+        return this.ask(message, message, options.default,
+                options.default, false, reply => {
+                    const error = validate(reply);
+                    return (error === null ? { value: reply } : { error });
+                });
+    }
+
+    /**
+     * Prompts for a password or other secret, hiding the characters typed when the input is a terminal.
+     *
+     * @param message Message asking for the password.
+     * @param options Optional `default` password and `validate` function.
+     * @returns a promise resolving to the password entered, as typed.
+     * @throws CommandError when the prompt cannot be answered and has no default.
+     */
+
+    password(message: string, options?: Prompter.TextOptions)
+        : Promise<string>
+    {
+        options = options || {};
+        const validate = options.validate || (() => null);
+        return this.ask(message, message, options.default, undefined, true,
+                reply => {
+                    const error = validate(reply);
+                    return (error === null ? { value: reply } : { error });
+                });
+    }
+
+    /**
+     * Prompts for a number, repeating the prompt until the user enters a valid number.
+     *
+     * @param message Message asking for the number.
+     * @param options Optional `default` number, `min` and `max` values, and whether the number must be an `integer`.
+     * @returns a promise resolving to the number entered.
+     * @throws CommandError when the prompt cannot be answered and has no default.
+     */
+
+    number(message: string, options?: Prompter.NumberOptions)
+        : Promise<number>
+    {
+        const opts = options || {};
+        const shown = (opts.default === undefined ? undefined :
+                String(opts.default));
+        return this.ask(message, message, opts.default, shown, false,
+                reply => {
+                    const value = Number(reply);
+                    if (reply === '' || isNaN(value))
+                        return { error: this.format('prompt.enter-number') };
+                    if (opts.integer && Math.floor(value) !== value) {
+                        return { error:
+                                this.format('prompt.enter-whole-number') };
+                    }
+                    if (opts.min !== undefined && value < opts.min) {
+                        return { error: this.format('prompt.enter-number-min',
+                                { min: opts.min }) };
+                    }
+                    if (opts.max !== undefined && value > opts.max) {
+                        return { error: this.format('prompt.enter-number-max',
+                                { max: opts.max }) };
+                    }
+                    return { value };
+                });
+    }
+
+    /**
+     * Prompts the user to select one of a list of choices, listing the numbered choices. The user may enter either the number or the value of a choice.
+     *
+     * @param message Message asking for the selection.
+     * @param choices The choices, each either a value or a value and a label.
+     * @param options Optional `default` value.
+     * @returns a promise resolving to the value of the choice selected.
+     * @throws CommandError when the prompt cannot be answered and has no default.
+     */
+
+    select(
+        message: string,
+        choices: Array<string|Prompter.Choice>,
+        options?: Prompter.SelectOptions
+    ): Promise<string> {
+        options = options || {};
+        const normChoices = normalizeChoices(choices);
+        const question = this.listChoices(message, normChoices,
+                this.format('prompt.select-one'));
+        return this.ask(message, question, options.default,
+                options.default, false, reply => {
+                    const value = findChoice(normChoices, reply);
+                    return (value === null ? {
+                        error: this.format('prompt.select-one-invalid')
+                    } : { value });
+                });
+    }
+
+    /**
+     * Prompts the user to select any number of a list of choices, listing the numbered choices. The user enters the numbers or values of the choices, separated by commas or spaces. An empty reply selects the default values, or no values when there is no default.
+     *
+     * @param message Message asking for the selections.
+     * @param choices The choices, each either a value or a value and a label.
+     * @param options Optional `default` values.
+     * @returns a promise resolving to the values of the choices selected, in the order listed.
+     */
+
+    multiSelect(
+        message: string,
+        choices: Array<string|Prompter.Choice>,
+        options?: Prompter.MultiSelectOptions
+    ): Promise<string[]> {
+        const normChoices = normalizeChoices(choices);
+        const defaults = (options && options.default) || [];
+        const question = this.listChoices(message, normChoices,
+                this.format('prompt.select-many'));
+        return this.ask<string[]>(message, question, defaults,
+                defaults.join(','), false, reply => {
+                    const values: string[] = [];
+                    const terms = reply.split(/[\s,]+/).filter(t => t !== '');
+                    for (const term of terms) {
+                        const value = findChoice(normChoices, term);
+                        if (value === null) {
+                            return { error:
+                                    this.format('prompt.select-many-invalid') };
+                        }
+                        if (values.indexOf(value) < 0)
+                            values.push(value);
+                    }
+                    return { value: normChoices.map(choice => choice.value)
+                            .filter(value => values.indexOf(value) >= 0) };
+                });
+    }
+
+    /**
+     * Asks the user to confirm, accepting "y" or "yes" as confirmation and "n" or "no" as refusal, in any letter case, or the answers that the catalog's locale provides. Resolves to true without prompting when configured to assume yes.
+     *
+     * @param message Message asking for confirmation.
+     * @param options Optional `default` answer.
+     * @returns a promise resolving to true when the user confirms.
+     * @throws CommandError when the prompt cannot be answered and has no default.
+     */
+
+    confirm(message: string, options?: Prompter.ConfirmOptions)
+        : Promise<boolean>
+    {
+        if (this.assumeYes)
+            return Promise.resolve(true);
+        const opts = options || {};
+        const shown = this.format(opts.default === undefined ? 'prompt.yes-no' :
+                opts.default ? 'prompt.yes-default' : 'prompt.no-default');
+        const yesAnswers = this.getAnswers('prompt.yes-answers');
+        const noAnswers = this.getAnswers('prompt.no-answers');
+        return this.ask(message, message +' ('+ shown +')', opts.default,
+                undefined, false, reply => {
+                    const answer = reply.toLowerCase();
+                    if (yesAnswers.indexOf(answer) >= 0)
+                        return { value: true };
+                    if (noAnswers.indexOf(answer) >= 0)
+                        return { value: false };
+                    return { error: this.format('prompt.answer-yes-no') };
+                }, this.yesFlag ? {
+                    id: 'hint.rerun-to-confirm',
+                    params: { flag: this.yesFlag }
+                } : undefined);
+    }
+
+    //// PROTECTED METHODS ////////////////////////////////////////////////////
+
+    protected async ask<T>(
+        message: string,
+        question: string,
+        defaultValue: T|undefined,
+        shownDefault: string|undefined,
+        hidden: boolean,
+        parse: (reply: string) => { value?: T, error?: string },
+        hint?: MessageCatalog.Text
+    ): Promise<T> {
+        const prompt = question + (shownDefault === undefined ||
+                shownDefault === '' ? '' : ' ['+ shownDefault +']') +' ';
+        if (!this.interactive) {
+            if (defaultValue !== undefined)
+                return defaultValue;
+            throw new Errors.CommandError(
+                    { id: 'error.cannot-prompt', params: { message } },
+                    { hint });
+        }
+
+        const reader = LineReader.for(this.streams.stdin);
+        while (true) {
+            const reply = await (hidden ?
+                    reader.questionHidden(this.streams.stdout, prompt) :
+                    reader.question(this.streams.stdout, prompt));
+            if (reply === null) {
+                if (defaultValue !== undefined)
+                    return defaultValue;
+                throw new Errors.CommandError(
+                        { id: 'error.input-ended', params: { message } },
+                        { hint });
+            }
+            const text = (hidden ? reply : reply.trim());
+            if (text === '' && defaultValue !== undefined)
+                return defaultValue;
+            const result = parse(text);
+            if (result.error === undefined)
+                return result.value!;
+            this.streams.stdout.write(result.error +"\n");
+        }
+    }
+
+    protected format(id: string, params?: MessageCatalog.Params): string {
+        return this.catalog.format(id, params);
+    }
+
+    protected getAnswers(id: string): string[] {
+        // the catalog lists the accepted answers separated by commas
+        return this.format(id).toLowerCase().split(',')
+                .map(answer => answer.trim());
+    }
+
+    protected listChoices(
+        message: string,
+        choices: Prompter.Choice[],
+        instruction: string
+    ): string {
+        return message +"\n"+ choices.map((choice, i) =>
+                `  ${i + 1}) ${choice.label || choice.value}\n`).join('') +
+                instruction;
+    }
+}
+
+//// SUPPORT FUNCTIONS ////////////////////////////////////////////////////////
+
+function normalizeChoices(
+    choices: Array<string|Prompter.Choice>
+): Prompter.Choice[] {
+    if (choices.length === 0)
+        throw new Error("no choices to select from");
+    return choices.map(choice =>
+            (typeof choice === 'string' ? { value: choice } : choice));
+}
+
+function findChoice(choices: Prompter.Choice[], reply: string): string|null {
+    const index = Number(reply);
+    if (/^\d+$/.test(reply) && index >= 1 && index <= choices.length)
+        return choices[index - 1].value;
+    const matches = choices.filter(choice => choice.value === reply);
+    return (matches.length > 0 ? matches[0].value : null);
+}
@@ -0,0 +1,126 @@
+
+import { CommandUtil } from './CommandUtil';
+
+//// CONSTANTS ////////////////////////////////////////////////////////////////
+
+const RESET = "\x1b[0m"; // ends all styling
+const HEADING = "\x1b[1;4m"; // bold and underlined
+const COMMAND = "\x1b[1m"; // bold
+const OPTION = "\x1b[36m"; // cyan
+const OPTION_REGEX = /^( +)(-\S.*?)(?=  |$)/; // indentation and flags
+
+//// TYPES ////////////////////////////////////////////////////////////////////
+
+export namespace Style {
+    export type Mode = 'auto'|'always'|'never';
+
+    export interface HelpLayout {
+        headings: string[]; // lines heading sections of help
+        optionHeadings: string[]; // lines heading lists of options
+        // first line of each command's entry and the path beginning it
+        entries: Array<[string, string]>;
+    }
+}
+
+/**
+ * Style applies ANSI styling to text written to a terminal, when enabled. Help is styled after it is composed and wrapped, according to a layout that identifies the lines of the help's section headings and of its command entries, as `CommandRunner#getHelpLayout()` provides. Only these lines and the flags beginning the entries under the headings of options are styled, leaving the other text of the help as composed.
+ */
+
+export class Style
+{
+    static readonly MODES: Style.Mode[] = ['auto', 'always', 'never'];
+
+    protected enabled: boolean; // whether to style text
+
+    /**
+     * @param enabled Whether to style text. When false, the methods return text unchanged.
+     */
+
+    constructor(enabled: boolean) {
+        this.enabled = enabled;
+    }
+
+    /**
+     * Returns a Style for text written to the given stream. In 'auto' mode, styling is enabled when the stream is a terminal and the `NO_COLOR` environment variable is not set to a non-empty value. The 'always' and 'never' modes enable and disable styling regardless.
+     *
+     * @param stream The stream to which the styled text is to be written.
+     * @param mode The mode determining whether to style text. Defaults to 'auto'.
+     */
+
+    static forStream(stream: NodeJS.WritableStream, mode?: Style.Mode): Style {
+        if (mode === 'always' || mode === 'never')
+            return new Style(mode === 'always');
+        return new Style(CommandUtil.isTTY(stream) && !process.env.NO_COLOR);
+    }
+
+    /**
+     * Indicates whether the Style styles text.
+     */
+
+    isEnabled(): boolean {
+        return this.enabled;
+    }
+
+    /**
+     * Styles the heading of a section.
+     */
+
+    heading(text: string): string {
+        return this.apply(HEADING, text);
+    }
+
+    /**
+     * Styles the name of a command.
+     */
+
+    command(text: string): string {
+        return this.apply(COMMAND, text);
+    }
+
+    /**
+     * Styles the flags of an option.
+     */
+
+    option(text: string): string {
+        return this.apply(OPTION, text);
+    }
+
+    /**
+     * Styles composed and wrapped help, styling the lines that the layout identifies as section headings, the command paths that begin the first lines of command entries, and the flags that begin the entries of options, which are the indented lines following a heading of options up to the next blank line.
+     *
+     * @param help The help to style, as plain text.
+     * @param layout The lines of the help to style.
+     * @returns the styled help.
+     */
+
+    styleHelp(help: string, layout: Style.HelpLayout): string {
+        if (!this.enabled)
+            return help;
+        let inOptions = false; // whether among the entries of options
+        return help.split("\n").map(line => {
+            if (layout.optionHeadings.indexOf(line) >= 0) {
+                inOptions = true;
+                return this.heading(line);
+            }
+            if (line === '' || layout.headings.indexOf(line) >= 0) {
+                inOptions = false;
+                return this.heading(line);
+            }
+            const entry = layout.entries.filter(entry => entry[0] === line)[0];
+            if (entry)
+                return this.command(entry[1]) + line.substr(entry[1].length);
+            const matches = (inOptions ? line.match(OPTION_REGEX) : null);
+            if (matches) {
+                return matches[1] + this.option(matches[2]) +
+                        line.substr(matches[0].length);
+            }
+            return line;
+        }).join("\n");
+    }
+
+    //// PROTECTED METHODS ////////////////////////////////////////////////////
+
+    protected apply(code: string, text: string): string {
+        return (this.enabled && text !== '' ? code + text + RESET : text);
+    }
+}
@@ -1,16 +1,47 @@
 
+import { MessageCatalog } from './MessageCatalog';
+
+//// TYPES ////////////////////////////////////////////////////////////////////
+
+export namespace CommandError {
+    export interface Options {
+        exitCode?: number; // exit code overriding the CommandRunner's code
+        hint?: string|MessageCatalog.Text; // line suggesting how to address it
+        cause?: Error; // underlying error that caused this error
+    }
+}
+
 ///////////////////////////////////////////////////////////////////////////////
 
 export class CommandError extends Error
 {
+    exitCode?: number; // exit code overriding the CommandRunner's code
+    hint?: string; // line suggesting how to address the error
+    cause?: Error; // underlying error that caused this error
+    text: MessageCatalog.Text|null; // id and params of message, if any
+    hintText: MessageCatalog.Text|null; // id and params of hint, if any
+
     /**
      * Error that prevents the command from running.
      *
-     * @param message Description of the error.
+     * @param message Description of the error, or the id and parameters of a message in the MessageCatalog. The error's `message` is then the English message, and CommandRunner reports the message in the user's locale.
+     * @param options Optional `exitCode` with which the process should exit, overriding the exit code that CommandRunner assigns; optional `hint` line suggesting how to address the error, which may also be the id and parameters of a message; and optional underlying `cause` of the error. CommandRunner#main() reports the hint and the cause with the error.
      */
      
-    constructor(message: string) {
-        super(message);
+    constructor(
+        message: string|MessageCatalog.Text,
+        options?: CommandError.Options
+    ) {
+        super(toEnglish(message));
+        this.name = new.target.name;
+        options = options || {};
+        this.exitCode = options.exitCode;
+        this.hint = (options.hint === undefined ? undefined :
+                toEnglish(options.hint));
+        this.cause = options.cause;
+        this.text = (typeof message === 'string' ? null : message);
+        this.hintText = (typeof options.hint === 'object' ? options.hint :
+                null);
     }
 }
 
@@ -21,11 +52,15 @@ export class CommandUsageError extends CommandError
     /**
      * Command line usage error
      *
-     * @param message Description of the usage error.
+     * @param message Description of the usage error, or the id and parameters of its message, as for CommandError.
+     * @param options Optional `exitCode`, `hint`, and `cause`, as for CommandError.
      */
      
-    constructor(message: string) {
-        super(message);
+    constructor(
+        message: string|MessageCatalog.Text,
+        options?: CommandError.Options
+    ) {
+        super(message, options);
     }
 }
 
@@ -40,6 +75,64 @@ export class UnexpectedArgError extends CommandUsageError
      */
      
     constructor(arg: string) {
-        super('UnexpectedArgument: "'+ arg +'"');
+        super({ id: 'error.unexpected-argument', params: { arg } });
     }
 }
+
+///////////////////////////////////////////////////////////////////////////////
+
+export class PluginError extends CommandError
+{
+    pluginName: string; // name of the plugin that failed to load
+
+    /**
+     * Error for a plugin that fails to load or whose commands conflict with the commands of the tool or of other plugins.
+     *
+     * @param pluginName Name of the plugin, such as its package name.
+     * @param message Description of the problem with the plugin, following the plugin's name, or the id and parameters of a message, which receives the plugin's name as parameter `plugin`.
+     * @param options Optional `exitCode`, `hint`, and `cause`, as for CommandError.
+     */
+     
+    constructor(
+        pluginName: string,
+        message: string|MessageCatalog.Text,
+        options?: CommandError.Options
+    ) {
+        super(typeof message === 'string' ?
+                `plugin '${pluginName}' ${message}` : {
+                    id: message.id,
+                    params: Object.assign({ plugin: pluginName },
+                            message.params)
+                }, options);
+        this.pluginName = pluginName;
+    }
+}
+
+///////////////////////////////////////////////////////////////////////////////
+
+export class CommandCancelledError extends CommandError
+{
+    signal: string|null; // signal that cancelled the command, if any
+
+    /**
+     * Error ending a run whose command was cancelled, such as by the user pressing Ctrl-C.
+     *
+     * @param signal Name of the signal that cancelled the command, such as 'SIGINT', or null if the command was cancelled otherwise.
+     * @param options Optional `exitCode`, `hint`, and `cause`, as for CommandError.
+     */
+     
+    constructor(signal: string|null, options?: CommandError.Options) {
+        super(signal ? {
+            id: 'error.command-cancelled-by-signal',
+            params: { signal }
+        } : { id: 'error.command-cancelled' }, options);
+        this.signal = signal;
+    }
+}
+
+//// SUPPORT FUNCTIONS ////////////////////////////////////////////////////////
+
+function toEnglish(message: string|MessageCatalog.Text): string {
+    return (typeof message === 'string' ? message :
+            MessageCatalog.getEnglish().render(message));
+}
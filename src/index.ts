@@ -1,6 +1,20 @@
 
+export { ArgParser } from './ArgParser';
+export { Cancellation } from './Cancellation';
 export { CommandRunner } from './CommandRunner';
-export { CommandSpec } from './CommandSpec';
+export { CommandSpec, CommandGroupSpec } from './CommandSpec';
+export { CommandShell } from './CommandShell';
+export { Completion } from './Completion';
 export { NamedCommand } from './NamedCommand';
+export { CommandTester } from './CommandTester';
 export { CommandUtil } from './CommandUtil';
+export { DocGenerator } from './DocGenerator';
+export { Logger } from './Logger';
+export { MessageCatalog } from './MessageCatalog';
+export { OptionSchema } from './OptionSchema';
+export { OutputFormatter } from './OutputFormatter';
+export { PluginLoader } from './PluginLoader';
+export { Progress, Spinner, ProgressBar } from './Progress';
+export { Prompter } from './Prompter';
+export { Style } from './Style';
 export * from './errors';
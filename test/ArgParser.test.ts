@@ -0,0 +1,44 @@
+import assert = require("assert");
+import { ArgParser, CommandRunner, CommandTester } from '../src/index';
+import { TestSpec } from './support';
+
+describe("ArgParser", () => {
+
+    it("parses declared options and their aliases", () => {
+        const parser = new ArgParser({
+            boolean: ['force'],
+            string: ['name'],
+            alias: { name: 'n' }
+        });
+        assert.deepStrictEqual(parser.parse(['-n', 'pat', '--force', 'x']), {
+            _: ['x'],
+            name: 'pat',
+            n: 'pat',
+            force: true
+        });
+    });
+
+    it("takes a declared --no- option literally", () => {
+        const parser = new ArgParser({ boolean: ['no-input', 'color'] });
+        const args = parser.parse(['--no-input', '--no-color']);
+        assert.strictEqual(args['no-input'], true);
+        assert.strictEqual(args.color, false);
+    });
+
+    it("rejects options named for inherited properties", () => {
+        const parser = new ArgParser({ boolean: ['force'] });
+        ['constructor', 'toString', '__proto__'].forEach(name => {
+            assert.strictEqual(parser.isDeclared(name), false);
+            assert.throws(() => parser.parse(['--'+ name]),
+                    new RegExp("unknown option '--"+ name +"'"));
+        });
+    });
+
+    it("rejects inherited names before commands", async () => {
+        const runner = new CommandRunner();
+        runner.addCommands([new TestSpec("noop", () => {})]);
+        const result = await CommandTester.run(runner,
+                ['--constructor', 'noop']);
+        assert.strictEqual(result.exitCode, 2);
+    });
+});
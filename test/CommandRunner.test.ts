@@ -0,0 +1,846 @@
+import ChildProcess = require("child_process");
+import FS = require("fs");
+import OS = require("os");
+import Path = require("path");
+import Stream = require("stream");
+import assert = require("assert");
+import Minimist = require("minimist");
+import {
+    Cancellation,
+    CommandError,
+    CommandGroupSpec,
+    CommandRunner,
+    CommandSpec,
+    CommandTester,
+    CommandUsageError,
+    NamedCommand
+} from '../src/index';
+import { TestSpec, delay } from './support';
+
+//// SUPPORT CLASSES //////////////////////////////////////////////////////////
+
+class CallbackSpec extends CommandSpec {
+
+    protected perform: (next: (err?: Error) => void) => any;
+
+    constructor(
+        syntax: string,
+        perform: (next: (err?: Error) => void) => any
+    ) {
+        super(syntax, "Tests callbacks");
+        this.perform = perform;
+    }
+
+    createCommand() {
+        return new CallbackCmd(this.perform);
+    }
+}
+
+class CallbackCmd extends NamedCommand {
+
+    protected perform: (next: (err?: Error) => void) => any;
+
+    constructor(perform: (next: (err?: Error) => void) => any) {
+        super();
+        this.perform = perform;
+    }
+
+    doCommand(args: Minimist.ParsedArgs, next: (err?: Error) => void) {
+        return this.perform(next);
+    }
+}
+
+class SyncSpec extends CommandSpec {
+
+    constructor() {
+        super("sync", "Returns a result synchronously");
+    }
+
+    createCommand() {
+        return new SyncCmd();
+    }
+}
+
+class SyncCmd extends NamedCommand {
+
+    doCommand(args: Minimist.ParsedArgs) {
+        return 42;
+    }
+}
+
+class CopySpec extends CommandSpec {
+
+    constructor() {
+        super("copy <src> <dst>", "Copies via parseArgs()");
+    }
+
+    createCommand() {
+        return new CopyCmd();
+    }
+}
+
+class CopyCmd extends NamedCommand {
+
+    parseArgs(args: Minimist.ParsedArgs) {
+        args.src = args._.shift();
+        args.dst = args._.shift();
+    }
+
+    async doCommand(args: Minimist.ParsedArgs) {
+        this.printLn("%s -> %s", args.src, args.dst);
+    }
+}
+
+class TextStream extends Stream.Writable {
+
+    text = ''; // text written to the stream
+
+    _write(chunk: any, encoding: string, callback: () => void) {
+        this.text += chunk;
+        callback();
+    }
+}
+
+//// SUPPORT FUNCTIONS ////////////////////////////////////////////////////////
+
+function runFixture(name: string): Promise<{ code: number, output: string }> {
+    const fixture = Path.join(__dirname, 'fixtures', name +'.js');
+    return new Promise(resolve => {
+        const child = ChildProcess.spawn(process.execPath, [fixture]);
+        let output = '';
+        child.stdout.on('data', data => output += data);
+        child.stderr.on('data', data => output += data);
+        child.on('close', code => resolve({ code, output }));
+    });
+}
+
+//// TESTS ////////////////////////////////////////////////////////////////////
+
+describe("CommandRunner", () => {
+
+    describe("callback-style commands", () => {
+
+        it("completes when the command calls next()", async () => {
+            const runner = new CommandRunner();
+            runner.addCommands([
+                new CallbackSpec("later", next => {
+                    setTimeout(() => next(), 5);
+                })
+            ]);
+            const result = await CommandTester.run(runner, ['later']);
+            assert.strictEqual(result.exitCode, 0);
+        });
+
+        it("reports errors passed to next()", async () => {
+            const runner = new CommandRunner();
+            runner.addCommands([
+                new CallbackSpec("fail", next => {
+                    setTimeout(() => next(new Error("boom")), 5);
+                })
+            ]);
+            const result = await CommandTester.run(runner, ['fail']);
+            assert.strictEqual(result.error!.message, "boom");
+            assert.strictEqual(result.exitCode, 70);
+        });
+
+        it("warns of calling next() twice without throwing", async () => {
+            const runner = new CommandRunner();
+            let calledTwice = false;
+            runner.addCommands([
+                new CallbackSpec("twice", next => {
+                    setTimeout(() => {
+                        next();
+                        next();
+                        calledTwice = true;
+                    }, 5);
+                })
+            ]);
+            const result = await CommandTester.run(runner, ['twice']);
+            assert.strictEqual(result.exitCode, 0);
+            assert.ok(calledTwice);
+            assert.strictEqual(result.stderr,
+                    "warning: command called next() more than once\n");
+        });
+
+        it("fails a command that never calls next()", async () => {
+            const result = await runFixture('never-next');
+            assert.strictEqual(result.code, 70);
+            assert.ok(result.output.indexOf("still not calling next()\n"+
+                    "Error: command completed without calling next()") === 0,
+                    result.output);
+        });
+    });
+
+    describe("command results", () => {
+
+        it("waits for next() when the command returns a value", async () => {
+            const runner = new CommandRunner();
+            let nextCalled = false;
+            runner.addCommands([
+                new CallbackSpec("stream", next => {
+                    setTimeout(() => {
+                        nextCalled = true;
+                        next();
+                    }, 20);
+                    return { pipe: () => {} }; // as a stream would
+                })
+            ]);
+            const result = await CommandTester.run(runner, ['stream']);
+            assert.ok(nextCalled);
+            assert.strictEqual(result.exitCode, 0);
+            assert.strictEqual(result.stderr, '');
+        });
+
+        it("provides a result that a command returns synchronously",
+            async () => {
+                const runner = new CommandRunner();
+                runner.addCommands([new SyncSpec()]);
+                const outcome = await runner.run(['sync']);
+                assert.strictEqual(outcome.result, 42);
+            }
+        );
+    });
+
+    describe("subcommands", () => {
+
+        function createRunner(): CommandRunner {
+            const runner = new CommandRunner();
+            runner.addCommands([
+                new CommandGroupSpec("remote", "Manages remotes", [[
+                    new TestSpec("add <name>", (command, args) =>
+                        command.printLn("added %s", args.name),
+                        { positionals: true }),
+                    new TestSpec("remove <name>", (command, args) =>
+                        command.printLn("removed %s", args.name),
+                        { positionals: true })
+                ]]),
+                new TestSpec("add", command => command.printLn("added"))
+            ]);
+            return runner;
+        }
+
+        it("dispatch down the tree of commands", async () => {
+            const runner = createRunner();
+            let result = await CommandTester.run(runner,
+                    ['remote', 'add', 'origin']);
+            assert.strictEqual(result.stdout, "added origin\n");
+            result = await CommandTester.run(runner,
+                    ['REMOTE', 'remove', 'origin']);
+            assert.strictEqual(result.stdout, "removed origin\n");
+            result = await CommandTester.run(runner, ['add']);
+            assert.strictEqual(result.stdout, "added\n");
+        });
+
+        it("require a subcommand of a command group", async () => {
+            const result = await CommandTester.run(createRunner(), ['remote']);
+            assert.strictEqual(result.stderr,
+                "Missing subcommand argument for 'remote' (-h for help)\n");
+            assert.strictEqual(result.exitCode, 2);
+        });
+
+        it("show the help of each level", async () => {
+            const runner = createRunner();
+            let result = await CommandTester.run(runner, ['remote', '-h']);
+            assert.strictEqual(result.stdout, "REMOTE\n  Manages remotes\n\n"+
+                    "This command supports the following subcommands:\n\n"+
+                    "REMOTE ADD <name>\n  Tests add <name>\n"+
+                    "REMOTE REMOVE <name>\n  Tests remove <name>\n\n");
+            result = await CommandTester.run(runner, ['remote', 'add', '-h']);
+            assert.strictEqual(result.stdout,
+                    "REMOTE ADD <name>\n  Tests add <name>\n");
+        });
+
+        it("have names unique among their siblings", () => {
+            const group = new CommandGroupSpec("remote", "Manages remotes");
+            group.addCommands([new TestSpec("add", () => {})]);
+            assert.throws(() => group.addCommands([
+                new TestSpec("ADD", () => {})
+            ]), /^Error: duplicate command name 'remote add'$/);
+        });
+    });
+
+    describe("command names", () => {
+
+        function createRunner(allowPrefixes = false): CommandRunner {
+            const runner = new CommandRunner({ allowPrefixes });
+            runner.addCommands([
+                new TestSpec("deploy", command => command.printLn("deployed"),
+                        { aliases: ['ship'] }),
+                new TestSpec("delete", command => command.printLn("deleted")),
+                new TestSpec("debug", command => command.printLn("debugged"),
+                        { hidden: true })
+            ]);
+            return runner;
+        }
+
+        it("include aliases", async () => {
+            const runner = createRunner();
+            let result = await CommandTester.run(runner, ['SHIP']);
+            assert.strictEqual(result.stdout, "deployed\n");
+            result = await CommandTester.run(runner, ['-h']);
+            assert.ok(result.stdout.indexOf(
+                    "DEPLOY\n  Tests deploy (alias: ship)\n") >= 0,
+                    result.stdout);
+            assert.throws(() => runner.addCommands([
+                new TestSpec("push", () => {}, { aliases: ['deploy'] })
+            ]), /duplicate command name 'deploy'/);
+        });
+
+        it("match unique prefixes when allowed", async () => {
+            let result = await CommandTester.run(createRunner(true), ['dep']);
+            assert.strictEqual(result.stdout, "deployed\n");
+            result = await CommandTester.run(createRunner(true), ['de']);
+            assert.strictEqual(result.stderr, "ambiguous command 'de' could "+
+                    "be 'deploy' or 'delete' (-h for help)\n");
+            result = await CommandTester.run(createRunner(), ['dep']);
+            assert.strictEqual(result.stderr, "unrecognized command 'dep'; "+
+                    "did you mean 'deploy'? (-h for help)\n");
+        });
+
+        it("suggest the closest names for unknown names", async () => {
+            const runner = createRunner();
+            let result = await CommandTester.run(runner, ['delpoy']);
+            assert.strictEqual(result.stderr, "unrecognized command 'delpoy'; "+
+                    "did you mean 'deploy'? (-h for help)\n");
+            assert.strictEqual(result.exitCode, 2);
+            result = await CommandTester.run(runner, ['debgu']);
+            assert.strictEqual(result.stderr,
+                    "unrecognized command 'debgu' (-h for help)\n");
+        });
+    });
+
+    describe("main()", () => {
+
+        function createRunner(stderr: TextStream): CommandRunner {
+            const runner = new CommandRunner({
+                stderr,
+                exitCodes: { usage: 64 }
+            });
+            runner.addCommands([
+                new TestSpec("fail", () => {
+                    throw new CommandError("failed", {
+                        exitCode: 3,
+                        hint: "try again",
+                        cause: new Error("disk full")
+                    });
+                }),
+                new TestSpec("crash", () => {
+                    throw new TypeError("oops");
+                }),
+                new TestSpec("pass", () => {})
+            ]);
+            return runner;
+        }
+
+        async function runMain(argv: string[])
+            : Promise<{ exitCode: number, stderr: string }>
+        {
+            const stderr = new TextStream();
+            try {
+                const exitCode = await createRunner(stderr).main(argv);
+                assert.strictEqual(process.exitCode, exitCode);
+                return { exitCode, stderr: stderr.text };
+            }
+            finally {
+                process.exitCode = 0;
+            }
+        }
+
+        it("maps the outcome to an exit code", async () => {
+            assert.deepStrictEqual(await runMain(['pass']),
+                    { exitCode: 0, stderr: '' });
+            assert.deepStrictEqual(await runMain(['bogus']), {
+                exitCode: 64,
+                stderr: "unrecognized command 'bogus' (-h for help)\n"
+            });
+            assert.deepStrictEqual(await runMain(['crash']), {
+                exitCode: 70,
+                stderr: "TypeError: oops\n(rerun with --debug for details)\n"
+            });
+        });
+
+        it("renders the hint and the cause of an error", async () => {
+            assert.deepStrictEqual(await runMain(['fail']), {
+                exitCode: 3,
+                stderr: "failed\ntry again\ncaused by: disk full\n"
+            });
+        });
+
+        it("reports stacks when debugging", async () => {
+            const result = await runMain(['crash', '--debug']);
+            assert.strictEqual(result.exitCode, 70);
+            assert.ok(result.stderr.indexOf("TypeError: oops\n    at ") >= 0,
+                    result.stderr);
+            process.env.MUNCHIES_DEBUG = '1';
+            try {
+                const debugged = await runMain(['crash']);
+                assert.ok(debugged.stderr.indexOf("TypeError: oops\n    at ")
+                        >= 0, debugged.stderr);
+            }
+            finally {
+                delete process.env.MUNCHIES_DEBUG;
+            }
+        });
+    });
+
+    describe("positional arguments", () => {
+
+        it("assigns the arguments that the syntax declares", async () => {
+            const runner = new CommandRunner();
+            runner.addCommands([
+                new TestSpec("x [options] <file> [more...]", (command, args) =>
+                    command.printLn("%j", [args.file, args.more]),
+                    { positionals: true })
+            ]);
+            const result = await CommandTester.run(runner, ['x', 'a', 'b', 'c']);
+            assert.strictEqual(result.stdout, '["a",["b","c"]]\n');
+        });
+
+        it("reports missing required arguments", async () => {
+            const runner = new CommandRunner();
+            runner.addCommands([
+                new TestSpec("x <file>", () => {}, { positionals: true })
+            ]);
+            const result = await CommandTester.run(runner, ['x']);
+            assert.strictEqual(result.stderr,
+                    "missing argument <file> (-h for help)\n");
+            assert.strictEqual(result.exitCode, 2);
+        });
+
+        it("leaves the arguments to parseArgs() by default", async () => {
+            const runner = new CommandRunner();
+            runner.addCommands([new CopySpec()]);
+            const result = await CommandTester.run(runner, ['copy', 'a', 'b']);
+            assert.strictEqual(result.stdout, "a -> b\n");
+        });
+    });
+
+    describe("global options", () => {
+
+        it("takes --no-input before the command for the option", async () => {
+            for (const lenientOptions of [false, true]) {
+                const runner = new CommandRunner({
+                    promptOptions: true,
+                    lenientOptions
+                });
+                runner.addCommands([
+                    new TestSpec("ask", command => command.printLn("%s",
+                            command.getPrompter().isInteractive()))
+                ]);
+                let result = await CommandTester.run(runner, ['ask']);
+                assert.strictEqual(result.stdout, "true\n");
+                result = await CommandTester.run(runner, ['--no-input', 'ask']);
+                assert.strictEqual(result.stderr, '');
+                assert.strictEqual(result.stdout, "false\n");
+            }
+        });
+
+        it("leaves the command its own verbosity flags", async () => {
+            const runner = new CommandRunner({ verbosityOptions: true });
+            runner.addCommands([
+                new TestSpec("grep", command => {
+                    command.getLogger().info("verbose");
+                }, {
+                    options: {
+                        invert: {
+                            type: 'boolean',
+                            description: "Inverts",
+                            aliases: ['v']
+                        }
+                    }
+                }),
+                new TestSpec("list", command => {
+                    command.getLogger().info("verbose");
+                })
+            ]);
+            let result = await CommandTester.run(runner, ['grep', '-v']);
+            assert.strictEqual(result.stderr, '');
+            result = await CommandTester.run(runner, ['-v', 'grep']);
+            assert.strictEqual(result.stderr, "verbose\n");
+            result = await CommandTester.run(runner, ['list', '-v']);
+            assert.strictEqual(result.stderr, "verbose\n");
+        });
+    });
+
+    describe("help command", () => {
+
+        it("follows global options", async () => {
+            const runner = new CommandRunner({
+                helpCommand: true,
+                globalOptions: {
+                    loud: { type: 'boolean', description: "Shout" }
+                }
+            });
+            runner.addCommands([new TestSpec("greet", () => {})]);
+            const plain = await CommandTester.run(runner, ['help', 'greet']);
+            assert.ok(plain.stdout.indexOf("Tests greet") >= 0, plain.stdout);
+            const result = await CommandTester.run(runner,
+                    ['--loud', 'help', 'greet']);
+            assert.strictEqual(result.exitCode, 0);
+            assert.strictEqual(result.stdout, plain.stdout);
+        });
+    });
+
+    describe("structured output", () => {
+
+        it("renders records in the selected format", async () => {
+            const runner = new CommandRunner({ structuredOutput: true });
+            runner.addCommands([
+                new TestSpec("show", command => {
+                    command.printRecord({ name: "pat", age: 30 });
+                    command.printRecord({ name: "sam", age: 40 });
+                })
+            ]);
+            let result = await CommandTester.run(runner, ['show', '--json']);
+            assert.strictEqual(result.stdout, '{\n  "name": "pat",\n'+
+                    '  "age": 30\n}\n{\n  "name": "sam",\n  "age": 40\n}\n');
+            result = await CommandTester.run(runner,
+                    ['--format', 'csv', 'show']);
+            assert.strictEqual(result.stdout,
+                    "name,age\r\npat,30\r\nsam,40\r\n");
+        });
+    });
+
+    describe("hooks", () => {
+
+        it("calls the hooks of each phase in order", async () => {
+            const runner = new CommandRunner();
+            const phases: string[] = [];
+            runner.addCommands([
+                new TestSpec("work", () => { phases.push("command"); })
+            ]);
+            runner.use({
+                beforeParse: () => { phases.push("beforeParse"); },
+                afterParse: () => { phases.push("afterParse"); },
+                beforeCommand: () => { phases.push("beforeCommand"); },
+                afterCommand: () => { phases.push("afterCommand"); }
+            });
+            await runner.run(['work']);
+            assert.deepStrictEqual(phases, ["beforeParse", "afterParse",
+                    "beforeCommand", "command", "afterCommand"]);
+        });
+
+        it("keeps the error when an onError hook fails", async () => {
+            const runner = new CommandRunner();
+            let reported: Error|null = null;
+            runner.addCommands([
+                new TestSpec("fail", command => {
+                    throw command.error("failed on purpose");
+                })
+            ]);
+            runner.use({
+                onError: () => { throw new Error("hook broke"); }
+            });
+            runner.use({
+                onError: (context, err) => { reported = err; }
+            });
+            const result = await CommandTester.run(runner, ['fail']);
+            assert.strictEqual(result.error!.message, "failed on purpose");
+            assert.strictEqual(reported, result.error);
+            assert.strictEqual(result.stderr,
+                    "warning: error hook failed: hook broke\n"+
+                    "failed on purpose\n");
+        });
+    });
+
+    describe("cancellation", () => {
+
+        it("waits for a cancelled command before cleaning up", async () => {
+            const runner = new CommandRunner();
+            const events: string[] = [];
+            runner.addCommands([
+                new TestSpec("slow", async command => {
+                    command.addCleanup(() => { events.push("cleanup"); });
+                    command.getCancellation().cancel('SIGINT');
+                    await delay(20);
+                    events.push("stopped");
+                })
+            ]);
+            const outcome = await runner.run(['slow']);
+            assert.strictEqual(outcome.error!.message,
+                    "command cancelled by SIGINT");
+            assert.deepStrictEqual(events, ["stopped", "cleanup"]);
+        });
+    });
+
+    describe("option sources", () => {
+
+        let rootPath: string; // temporary directory serving as home
+        let projectPath: string; // project directory within the home
+        let savedHome: string|undefined;
+        let savedCwd: string;
+
+        function createRunner(): CommandRunner {
+            const runner = new CommandRunner({ toolName: 'mytool' });
+            runner.addCommands([
+                new TestSpec("deploy", (command, args) =>
+                    command.printLn("%j", [args.region, args.endpoint,
+                            args.retries, args.timeout]), {
+                    options: {
+                        region: { type: 'string', description: "Region" },
+                        endpoint: { type: 'string', description: "Endpoint" },
+                        retries: { type: 'number', description: "Retries" },
+                        timeout: {
+                            type: 'number',
+                            description: "Timeout",
+                            default: 30
+                        }
+                    }
+                })
+            ]);
+            return runner;
+        }
+
+        beforeEach(() => {
+            rootPath = FS.mkdtempSync(Path.join(OS.tmpdir(), 'home-'));
+            projectPath = Path.join(rootPath, 'project');
+            FS.mkdirSync(projectPath);
+            FS.mkdirSync(Path.join(projectPath, 'src'));
+            FS.writeFileSync(Path.join(rootPath, '.mytool.json'),
+                    JSON.stringify({
+                        region: "user",
+                        endpoint: "user",
+                        retries: 1
+                    }));
+            FS.writeFileSync(Path.join(projectPath, '.mytool.json'),
+                    JSON.stringify({
+                        endpoint: "project",
+                        commands: { deploy: { retries: 5 } }
+                    }));
+            savedHome = process.env.HOME;
+            savedCwd = process.cwd();
+            process.env.HOME = rootPath;
+            process.chdir(Path.join(projectPath, 'src'));
+        });
+
+        afterEach(() => {
+            process.chdir(savedCwd);
+            if (savedHome === undefined)
+                delete process.env.HOME;
+            else
+                process.env.HOME = savedHome;
+            FS.unlinkSync(Path.join(projectPath, '.mytool.json'));
+            FS.rmdirSync(Path.join(projectPath, 'src'));
+            FS.rmdirSync(projectPath);
+            FS.unlinkSync(Path.join(rootPath, '.mytool.json'));
+            FS.rmdirSync(rootPath);
+        });
+
+        it("layer the config files over the defaults", async () => {
+            const runner = createRunner();
+            const result = await CommandTester.run(runner, ['deploy']);
+            assert.deepStrictEqual(JSON.parse(result.stdout),
+                    ["user", "project", 5, 30]);
+            const projectFile = Path.join(projectPath, '.mytool.json');
+            assert.deepStrictEqual(runner.getOptionOrigins(), {
+                region: Path.join(rootPath, '.mytool.json'),
+                endpoint: projectFile,
+                retries: projectFile +" [commands.deploy]",
+                timeout: 'default'
+            });
+        });
+
+        it("layer the environment and command line over the files",
+            async () => {
+                process.env.MYTOOL_ENDPOINT = "env";
+                process.env.MYTOOL_RETRIES = "7";
+                try {
+                    const runner = createRunner();
+                    const result = await CommandTester.run(runner,
+                            ['deploy', '--retries', '9']);
+                    assert.deepStrictEqual(JSON.parse(result.stdout),
+                            ["user", "env", 9, 30]);
+                    assert.strictEqual(runner.getOptionOrigins().endpoint,
+                            'environment variable MYTOOL_ENDPOINT');
+                    assert.strictEqual(runner.getOptionOrigins().retries,
+                            'command line');
+                }
+                finally {
+                    delete process.env.MYTOOL_ENDPOINT;
+                    delete process.env.MYTOOL_RETRIES;
+                }
+            }
+        );
+    });
+
+    describe("destructive commands", () => {
+
+        function createRunner(configFiles: string[] = []): CommandRunner {
+            const runner = new CommandRunner({ toolName: 'mytool' });
+            runner.getConfigFiles = () => configFiles;
+            runner.addCommands([
+                new TestSpec("wipe", command =>
+                    (command.isDryRun() ? "WOULD WIPE" : "WIPED"),
+                    { destructive: true })
+            ]);
+            return runner;
+        }
+
+        it("run only once the user confirms", async () => {
+            const runner = createRunner();
+            let result = await CommandTester.run(runner, ['wipe'], ['y']);
+            assert.strictEqual(result.outcome!.result, "WIPED");
+            result = await CommandTester.run(runner, ['wipe'], ['n']);
+            assert.strictEqual(result.error!.message, "command cancelled");
+            assert.strictEqual(result.outcome!.result, undefined);
+        });
+
+        it("run without asking given --yes or --dry-run", async () => {
+            const runner = createRunner();
+            let result = await CommandTester.run(runner, ['wipe', '--yes']);
+            assert.strictEqual(result.outcome!.result, "WIPED");
+            result = await CommandTester.run(runner, ['wipe', '--dry-run']);
+            assert.strictEqual(result.outcome!.result, "WOULD WIPE");
+            assert.strictEqual(result.stdout, '');
+        });
+
+        it("ask their own question, refusing to run when unable", async () => {
+            const runner = new CommandRunner({ promptOptions: true });
+            runner.addCommands([
+                new TestSpec("wipe", () => "WIPED",
+                        { destructive: "Really wipe everything?" })
+            ]);
+            let result = await CommandTester.run(runner, ['wipe'], ['yes']);
+            assert.strictEqual(result.stdout, "Really wipe everything? (y/n) ");
+            assert.strictEqual(result.outcome!.result, "WIPED");
+            result = await CommandTester.run(runner, ['--no-input', 'wipe']);
+            assert.strictEqual(result.stderr, "cannot prompt without an "+
+                    "interactive terminal: Really wipe everything?\n"+
+                    "rerun with --yes to confirm\n");
+            assert.strictEqual(result.exitCode, 1);
+        });
+
+        it("list --dry-run and --yes in help", async () => {
+            const result = await CommandTester.run(createRunner(),
+                    ['wipe', '-h']);
+            assert.strictEqual(result.stdout,
+                    "WIPE\n  Tests wipe (destructive)\n\nOptions:\n"+
+                    "  --dry-run  Report what the command would do without "+
+                        "doing it\n"+
+                    "  --yes      Run the command without asking for "+
+                        "confirmation\n");
+        });
+
+        it("take --yes only from the command line", async () => {
+            const dirPath = FS.mkdtempSync(Path.join(OS.tmpdir(), 'yes-'));
+            const configFile = Path.join(dirPath, '.mytool.json');
+            FS.writeFileSync(configFile, '{ "yes": true }');
+            process.env.MYTOOL_YES = '1';
+            try {
+                const runner = createRunner([configFile]);
+                const result = await CommandTester.run(runner, ['wipe']);
+                assert.strictEqual(result.exitCode, 1);
+                assert.strictEqual(result.outcome!.result, undefined);
+                assert.strictEqual(result.outcome!.args!.yes, false);
+            }
+            finally {
+                delete process.env.MYTOOL_YES;
+                FS.unlinkSync(configFile);
+                FS.rmdirSync(dirPath);
+            }
+        });
+    });
+
+    describe("localization", () => {
+
+        it("localizes the help, logging, and progress", async () => {
+            const runner = new CommandRunner({
+                locale: 'de',
+                messages: {
+                    de: {
+                        'help.option-default': "Standard: {value}",
+                        'option.dry-run': "Nur zeigen, was geschähe",
+                        'log.warn': "Warnung: {message}",
+                        'progress.done': "{message} fertig"
+                    }
+                }
+            });
+            runner.addCommands([
+                new TestSpec("wipe", command => {
+                    command.getLogger().warn("vorsicht");
+                    runner.createSpinner("Wischen").succeed();
+                }, {
+                    destructive: true,
+                    options: {
+                        times: { type: 'number', description: "Mal", default: 1 }
+                    }
+                })
+            ]);
+            let result = await CommandTester.run(runner, ['wipe', '--help']);
+            assert.ok(result.stdout.indexOf("Mal (Standard: 1)") >= 0,
+                    result.stdout);
+            assert.ok(result.stdout.indexOf("Nur zeigen, was geschähe") >= 0,
+                    result.stdout);
+            result = await CommandTester.run(runner, ['wipe', '--yes']);
+            assert.strictEqual(result.stderr,
+                    "Warnung: vorsicht\nWischen fertig\n");
+        });
+    });
+
+    describe("invoke()", () => {
+
+        it("runs a command with a fresh cancellation", async () => {
+            const runner = new CommandRunner();
+            runner.addCommands([
+                new TestSpec("stop", command => {
+                    command.getCancellation().cancel('SIGINT');
+                    command.getCancellation().throwIfCancelled();
+                }),
+                new TestSpec("work", () => "worked")
+            ]);
+            const outcome = await runner.run(['stop']);
+            assert.strictEqual(outcome.error!.message,
+                    "command cancelled by SIGINT");
+            const invocation = await runner.invoke('work', [],
+                    { output: 'discard' });
+            assert.strictEqual(invocation.result, "worked");
+        });
+
+        it("shares the cancellation of an outer run", async () => {
+            const runner = new CommandRunner();
+            let outer: Cancellation|null = null;
+            let inner: Cancellation|null = null;
+            runner.addCommands([
+                new TestSpec("outer", async command => {
+                    outer = command.getCancellation();
+                    await command.invoke('inner');
+                }),
+                new TestSpec("inner", async command => {
+                    await delay(1);
+                    inner = command.getCancellation();
+                })
+            ]);
+            await runner.run(['outer']);
+            assert.ok(outer !== null);
+            assert.strictEqual(inner, outer);
+        });
+
+        it("requires the name of a command", async () => {
+            const runner = new CommandRunner({ allowPrefixes: true });
+            runner.addCommands([
+                new TestSpec("deploy", () => {}),
+                new TestSpec("remote", () => {})
+            ]);
+            for (const name of ['', '  ', [], ['']]) {
+                const error = await runner.invoke(name).then(() => null,
+                        err => err);
+                assert.ok(error instanceof CommandUsageError);
+                assert.strictEqual(error.message, "Missing command argument");
+            }
+        });
+
+        it("captures the output and result of a command", async () => {
+            const runner = new CommandRunner();
+            runner.addCommands([
+                new TestSpec("add <a> <b>", (command, args) => {
+                    command.printLn("adding");
+                    return Number(args.a) + Number(args.b);
+                }, { positionals: true })
+            ]);
+            const invocation = await runner.invoke('add', { a: '2', b: '3' },
+                    { output: 'capture' });
+            assert.strictEqual(invocation.result, 5);
+            assert.strictEqual(invocation.stdout, "adding\n");
+        });
+    });
+});
@@ -0,0 +1,98 @@
+import FS = require("fs");
+import OS = require("os");
+import Path = require("path");
+import assert = require("assert");
+import Minimist = require("minimist");
+import { CommandRunner, CommandShell, CommandTester } from '../src/index';
+import { TestSpec } from './support';
+
+//// SUPPORT CLASSES //////////////////////////////////////////////////////////
+
+class InterruptibleShell extends CommandShell {
+
+    interrupt() {
+        this.readline!.emit('SIGINT'); // as when the user presses Ctrl-C
+    }
+}
+
+class ShellRunner extends CommandRunner {
+
+    shellOptions: CommandShell.Options; // configuration of the shell
+    shell: InterruptibleShell|null = null; // shell that the run starts
+    globalsAfterShell: { [name: string]: any }|null = null; // once shell ends
+
+    constructor(shellOptions: CommandShell.Options) {
+        super({
+            globalOptions: {
+                loud: { type: 'boolean', description: "Shout" }
+            }
+        });
+        this.shellOptions = shellOptions;
+        this.addCommands([
+            new TestSpec("one", command => { command.printLn("ran one"); }),
+            new TestSpec("two", command => { command.printLn("ran two"); })
+        ]);
+    }
+
+    async doDefaultCommand(args: Minimist.ParsedArgs) {
+        this.shell = new InterruptibleShell(this, this.shellOptions);
+        await this.shell.run();
+        this.globalsAfterShell = Object.assign({}, this.getGlobals());
+    }
+}
+
+//// TESTS ////////////////////////////////////////////////////////////////////
+
+describe("CommandShell", () => {
+
+    it("runs command lines until an exit command", async () => {
+        const runner = new ShellRunner({ prompt: '' });
+        const result = await CommandTester.run(runner, [],
+                ['one', 'two', 'exit', 'one']);
+        assert.strictEqual(result.stdout, "ran one\nran two\n");
+        assert.strictEqual(result.exitCode, 0);
+    });
+
+    it("restores the state of the run that starts it", async () => {
+        const runner = new ShellRunner({ prompt: '' });
+        await CommandTester.run(runner, ['--loud'], ['one']);
+        assert.strictEqual(runner.globalsAfterShell!.loud, true);
+    });
+
+    it("cancels the running command line on Ctrl-C", async () => {
+        const runner = new ShellRunner({ prompt: '' });
+        runner.addCommands([
+            new TestSpec("wait", async command => {
+                setTimeout(() => runner.shell!.interrupt(), 5);
+                await command.getCancellation().whenCancelled();
+                command.printLn("stopped");
+            })
+        ]);
+        const result = await CommandTester.run(runner, [], ['wait', 'one']);
+        assert.strictEqual(result.stdout, "stopped\nran one\n");
+        assert.strictEqual(result.stderr,
+                "\ncancelling the command line\ncommand cancelled by SIGINT\n");
+        assert.strictEqual(result.exitCode, 0);
+    });
+
+    it("keeps only the most recent lines of history", async () => {
+        const dirPath = FS.mkdtempSync(Path.join(OS.tmpdir(), 'shell-'));
+        const historyFile = Path.join(dirPath, 'history');
+        try {
+            FS.writeFileSync(historyFile, "old\n");
+            const runner = new ShellRunner({
+                prompt: '',
+                historyFile,
+                historySize: 2
+            });
+            await CommandTester.run(runner, [], ['one', 'two', 'one']);
+            assert.strictEqual(FS.readFileSync(historyFile, 'utf8'),
+                    "two\none\n");
+        }
+        finally {
+            if (FS.existsSync(historyFile))
+                FS.unlinkSync(historyFile);
+            FS.rmdirSync(dirPath);
+        }
+    });
+});
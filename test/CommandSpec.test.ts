@@ -0,0 +1,130 @@
+import FS = require("fs");
+import OS = require("os");
+import Path = require("path");
+import assert = require("assert");
+import TS = require("typescript");
+import { CommandRunner, CommandSpec, NamedCommand } from '../src/index';
+
+//// SUPPORT FUNCTIONS ////////////////////////////////////////////////////////
+
+const SOURCE_DIR = Path.resolve(__dirname, '../../src');
+
+// type-checks the given module, returning the messages of its errors
+function typeCheck(code: string): string[] {
+    const dirPath = FS.mkdtempSync(Path.join(OS.tmpdir(), 'typed-'));
+    const filePath = Path.join(dirPath, 'typed.ts');
+    FS.writeFileSync(filePath, "import { CommandSpec, NamedCommand } "+
+            "from "+ JSON.stringify(SOURCE_DIR) +";\n"+ code);
+    try {
+        const program = TS.createProgram([filePath], {
+            target: TS.ScriptTarget.ES2016,
+            module: TS.ModuleKind.CommonJS,
+            lib: ['lib.es2016.d.ts'],
+            strictNullChecks: true,
+            noImplicitAny: true,
+            noEmit: true,
+            typeRoots: [Path.resolve(SOURCE_DIR, '../node_modules/@types')]
+        });
+        return TS.getPreEmitDiagnostics(program)
+            .map(diagnostic => TS.flattenDiagnosticMessageText(
+                    diagnostic.messageText, "\n"));
+    }
+    finally {
+        FS.unlinkSync(filePath);
+        FS.rmdirSync(dirPath);
+    }
+}
+
+//// TESTS ////////////////////////////////////////////////////////////////////
+
+describe("CommandSpec", () => {
+
+    describe("typed arguments", function () {
+        this.timeout(60000); // type-checks the library
+
+        const declaration = `
+            const COPY = CommandSpec.define("copy <src> [dst]", "Copies", {
+                options: {
+                    times: { type: 'number', description: "", default: 1 }
+                },
+                positionals: { src: 'required', dst: 'optional' },
+                globalOptions: { loud: { type: 'boolean', description: "" } },
+                destructive: true
+            });
+            type CopyArgs = CommandSpec.ArgsOf<typeof COPY>;
+        `;
+
+        it("derive from the declaration", () => {
+            assert.deepStrictEqual(typeCheck(declaration +`
+                class CopySpec extends CommandSpec<CopyArgs> {
+                    constructor() { super(COPY); }
+                    createCommand(): NamedCommand<CopyArgs> {
+                        throw new Error();
+                    }
+                }
+                function use(args: CopyArgs) {
+                    const times: number = args.times;
+                    const src: string = args.src;
+                    const dst: string|undefined = args.dst;
+                    const flags: boolean[] =
+                            [args.loud, args['dry-run'], args.yes];
+                    return [times, src, dst, flags, new CopySpec()];
+                }
+                use;
+            `), []);
+        });
+
+        it("reject undeclared options", () => {
+            const errors = typeCheck(declaration +`
+                function use(args: CopyArgs) { return args.bogus; }
+                use;
+            `);
+            assert.strictEqual(errors.length, 1);
+            assert.ok(/'bogus'/.test(errors[0]), errors[0]);
+        });
+
+        it("reject a declaration lacking the arguments", () => {
+            const errors = typeCheck(declaration +`
+                type BogusArgs = CopyArgs & { bogus: string };
+                abstract class CopySpec extends CommandSpec<BogusArgs> {
+                    constructor() { super(COPY); }
+                }
+                abstract class PlainSpec extends CommandSpec<BogusArgs> {
+                    constructor() { super("copy <src>", "Copies"); }
+                }
+                [CopySpec, PlainSpec];
+            `);
+            assert.strictEqual(errors.length, 2, errors.join("\n"));
+        });
+    });
+
+    it("requires positional arguments to match the syntax", () => {
+        class CopySpec extends CommandSpec {
+            createCommand(): NamedCommand { throw new Error(); }
+        }
+        new CopySpec("copy <src> [dst...]", "Copies", {
+            positionals: { src: 'required', dst: 'variadic' }
+        });
+        assert.throws(() => new CopySpec("copy <src> [dst]", "Copies", {
+            positionals: { src: 'required', dst: 'variadic' }
+        }), /do not match syntax 'copy <src> \[dst\]'/);
+        assert.throws(() => new CopySpec("copy <src>", "Copies", {
+            positionals: { source: 'required' }
+        }), /do not match/);
+    });
+
+    it("requires the runner to declare expected global options", () => {
+        class LoudSpec extends CommandSpec {
+            createCommand(): NamedCommand { throw new Error(); }
+        }
+        const globalOptions = {
+            loud: { type: <'boolean'>'boolean', description: "Shout" }
+        };
+        new CommandRunner({ globalOptions }).addCommands([
+            new LoudSpec("greet", "Greets", { globalOptions })
+        ]);
+        assert.throws(() => new CommandRunner().addCommands([
+            new LoudSpec("greet", "Greets", { globalOptions })
+        ]), /expects global option 'loud'/);
+    });
+});
@@ -0,0 +1,61 @@
+import assert = require("assert");
+import { CommandRunner, CommandTester } from '../src/index';
+import { TestSpec } from './support';
+
+describe("CommandTester", () => {
+
+    it("captures the output of a command", async () => {
+        const runner = new CommandRunner();
+        runner.addCommands([
+            new TestSpec("greet <name>", (command, args) => {
+                command.printLn("hello, %s", args.name);
+            }, { positionals: true })
+        ]);
+        const result = await CommandTester.run(runner, ['greet', 'pat']);
+        assert.strictEqual(result.stdout, "hello, pat\n");
+        assert.strictEqual(result.stderr, '');
+        assert.strictEqual(result.exitCode, 0);
+        assert.strictEqual(result.error, undefined);
+    });
+
+    it("reports errors with their exit codes", async () => {
+        const runner = new CommandRunner();
+        runner.addCommands([
+            new TestSpec("fail", command => {
+                throw command.error("failed on purpose");
+            })
+        ]);
+        let result = await CommandTester.run(runner, ['fail']);
+        assert.strictEqual(result.stderr, "failed on purpose\n");
+        assert.strictEqual(result.exitCode, 1);
+
+        result = await CommandTester.run(runner, ['bogus']);
+        assert.strictEqual(result.stderr,
+                "unrecognized command 'bogus' (-h for help)\n");
+        assert.strictEqual(result.exitCode, 2);
+    });
+
+    it("supplies answers to prompts", async () => {
+        const runner = new CommandRunner();
+        runner.addCommands([
+            new TestSpec("ask", async command => {
+                const name = await command.getPrompter().text("Name?");
+                const sure = await command.confirm("Sure?");
+                command.printLn("%s %s", name, sure);
+            })
+        ]);
+        const result = await CommandTester.run(runner, ['ask'],
+                ['pat', 'maybe', 'y']);
+        assert.strictEqual(result.stdout, "Name? Sure? (y/n) "+
+                "please answer y or n\nSure? (y/n) pat true\n");
+    });
+
+    it("restores the runner's streams", async () => {
+        const runner = new CommandRunner();
+        runner.addCommands([new TestSpec("noop", () => {})]);
+        const streams = runner.getStreams();
+        await CommandTester.run(runner, ['noop']);
+        assert.strictEqual(runner.getStreams().stdout, streams.stdout);
+        assert.strictEqual(runner.getStreams().stdin, streams.stdin);
+    });
+});
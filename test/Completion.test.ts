@@ -0,0 +1,117 @@
+import assert = require("assert");
+import {
+    CommandGroupSpec,
+    CommandRunner,
+    CommandTester,
+    Completion
+} from '../src/index';
+import { TestSpec } from './support';
+
+//// SUPPORT FUNCTIONS ////////////////////////////////////////////////////////
+
+function createRunner(): CommandRunner {
+    const runner = new CommandRunner();
+    runner.addCommands([
+        new TestSpec("deploy", () => {}, {
+            options: {
+                region: {
+                    type: 'enum',
+                    description: "Region",
+                    values: ['us-east', 'us-west', 'eu']
+                },
+                bucket: {
+                    type: 'string',
+                    description: "Bucket",
+                    complete: partial => ['logs', 'assets', partial +'-new']
+                },
+                force: { type: 'boolean', description: "Forces" }
+            }
+        }),
+        new TestSpec("delete", () => {}),
+        new TestSpec("debug", () => {}, { hidden: true }),
+        new CommandGroupSpec("remote", "Manages remotes", [[
+            new TestSpec("add", () => {}),
+            new TestSpec("remove", () => {})
+        ]])
+    ]);
+    return runner;
+}
+
+// returns the completions that the hidden completion command writes
+async function complete(words: string[]): Promise<string[]> {
+    const result = await CommandTester.run(createRunner(),
+            ['__complete', '--'].concat(words));
+    assert.strictEqual(result.exitCode, 0);
+    return result.stdout.split("\n").slice(0, -1);
+}
+
+//// TESTS ////////////////////////////////////////////////////////////////////
+
+describe("Completion", () => {
+
+    describe("completions", () => {
+
+        it("complete the names of visible commands", async () => {
+            assert.deepStrictEqual(await complete(['']),
+                    ['deploy', 'delete', 'remote']);
+            assert.deepStrictEqual(await complete(['de']),
+                    ['deploy', 'delete']);
+            assert.deepStrictEqual(await complete(['remote', 'r']),
+                    ['remove']);
+            assert.deepStrictEqual(await complete(['deploy', '']), []);
+        });
+
+        it("complete the names of options", async () => {
+            assert.deepStrictEqual(await complete(['deploy', '--']),
+                    ['--help', '--region', '--bucket', '--force']);
+            assert.deepStrictEqual(await complete(['deploy', '--f']),
+                    ['--force']);
+        });
+
+        it("complete enumerated and computed values", async () => {
+            assert.deepStrictEqual(
+                    await complete(['deploy', '--region', 'us']),
+                    ['us-east', 'us-west']);
+            assert.deepStrictEqual(await complete(['deploy', '--region=e']),
+                    ['--region=eu']);
+            assert.deepStrictEqual(
+                    await complete(['deploy', '--bucket', 'a']),
+                    ['assets', 'a-new']);
+            assert.deepStrictEqual(await complete(['deploy', '--force', '']),
+                    []);
+        });
+    });
+
+    describe("scripts", () => {
+
+        it("run the completion command for each shell", async () => {
+            const runner = createRunner();
+            const expected: { [shell: string]: string } = {
+                bash: 'COMPREPLY=( $(mytool __complete -- '+
+                        '"${COMP_WORDS[@]:1:COMP_CWORD}" 2>/dev/null) )',
+                zsh: 'candidates=(${(f)"$(mytool __complete -- '+
+                        '"${(@)words[2,CURRENT]}" 2>/dev/null)"})',
+                fish: 'mytool __complete -- $words (commandline -ct) '+
+                        '2>/dev/null'
+            };
+            for (const shell of Completion.SHELLS) {
+                const result = await CommandTester.run(runner,
+                        ['__completion', shell, 'mytool']);
+                assert.strictEqual(result.stdout,
+                        runner.getCompletionScript(shell, 'mytool'));
+                assert.ok(result.stdout.indexOf(expected[shell]) >= 0,
+                        result.stdout);
+                assert.ok(result.stdout.indexOf(
+                        "_mytool_complete") >= 0, result.stdout);
+            }
+        });
+
+        it("reject unsupported shells", async () => {
+            const result = await CommandTester.run(createRunner(),
+                    ['__completion', 'csh']);
+            assert.strictEqual(result.stderr,
+                    "shell must be one of: bash, zsh, fish (-h for help)\n");
+            assert.strictEqual(result.exitCode, 2);
+        });
+    });
+});
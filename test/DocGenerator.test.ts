@@ -0,0 +1,61 @@
+import FS = require("fs");
+import OS = require("os");
+import Path = require("path");
+import assert = require("assert");
+import { CommandRunner, DocGenerator } from '../src/index';
+import { TestSpec, TestCommand } from './support';
+
+//// SUPPORT CLASSES //////////////////////////////////////////////////////////
+
+class DetailedSpec extends TestSpec {
+
+    constructor() {
+        super("detailed <name>", () => {});
+    }
+
+    createCommand() {
+        return new DetailedCmd(() => {});
+    }
+}
+
+class DetailedCmd extends TestCommand {
+
+    getHelp(rightMargin: number) {
+        return super.getHelp(rightMargin) +"\nMore about the command.\n";
+    }
+}
+
+//// TESTS ////////////////////////////////////////////////////////////////////
+
+describe("DocGenerator", () => {
+
+    it("documents only the help that an override adds", () => {
+        const runner = new CommandRunner();
+        runner.addCommands([new DetailedSpec()]);
+        const files = new DocGenerator(runner, { programName: 'tool' })
+            .generateMarkdown();
+        const page = files['tool-detailed.md'];
+        assert.ok(page.indexOf("## Details\n\n```\n"+
+                "More about the command.\n```\n") >= 0, page);
+    });
+
+    it("creates missing parent directories", () => {
+        const runner = new CommandRunner();
+        runner.addCommands([new TestSpec("noop", () => {})]);
+        const rootPath = FS.mkdtempSync(Path.join(OS.tmpdir(), 'docs-'));
+        const dirPath = Path.join(rootPath, 'a', 'b');
+        try {
+            const filePaths = new DocGenerator(runner, {
+                programName: 'tool'
+            }).write('man', dirPath);
+            assert.deepStrictEqual(filePaths, [Path.join(dirPath, 'tool.1')]);
+            assert.ok(FS.existsSync(filePaths[0]));
+        }
+        finally {
+            FS.unlinkSync(Path.join(dirPath, 'tool.1'));
+            FS.rmdirSync(dirPath);
+            FS.rmdirSync(Path.dirname(dirPath));
+            FS.rmdirSync(rootPath);
+        }
+    });
+});
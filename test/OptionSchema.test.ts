@@ -0,0 +1,103 @@
+import assert = require("assert");
+import { CommandRunner, CommandTester } from '../src/index';
+import { TestSpec } from './support';
+
+//// SUPPORT FUNCTIONS ////////////////////////////////////////////////////////
+
+function createRunner(): CommandRunner {
+    const runner = new CommandRunner();
+    runner.addCommands([
+        new TestSpec("fetch", (command, args) => command.printLn("%j", {
+            times: args.times,
+            t: args.t,
+            mode: args.mode,
+            tags: args.tags,
+            force: args.force,
+            url: args.url
+        }), {
+            options: {
+                times: {
+                    type: 'number',
+                    description: "Repeats",
+                    default: 1,
+                    aliases: ['t']
+                },
+                mode: {
+                    type: 'enum',
+                    description: "Mode",
+                    values: ['fast', 'safe']
+                },
+                tags: { type: 'list', description: "Tags" },
+                force: { type: 'boolean', description: "Forces" },
+                url: {
+                    type: 'string',
+                    description: "Source",
+                    required: true,
+                    env: 'FETCH_URL',
+                    valueName: 'address'
+                }
+            }
+        })
+    ]);
+    return runner;
+}
+
+//// TESTS ////////////////////////////////////////////////////////////////////
+
+describe("OptionSchema", () => {
+
+    it("lists the options in the help of the command", async () => {
+        const result = await CommandTester.run(createRunner(),
+                ['fetch', '-h']);
+        assert.strictEqual(result.stdout, "FETCH\n  Tests fetch\n\n"+
+                "Options:\n"+
+                "  -t, --times <number>  Repeats (default: 1)\n"+
+                "  --mode <fast|safe>    Mode\n"+
+                "  --tags <value>        Tags\n"+
+                "  --force               Forces\n"+
+                "  --url <address>       Source (required; env: FETCH_URL)\n");
+    });
+
+    it("coerces the values of the options", async () => {
+        const runner = createRunner();
+        let result = await CommandTester.run(runner, ['fetch', '--url', 'u']);
+        assert.deepStrictEqual(JSON.parse(result.stdout), {
+            times: 1, t: 1, tags: [], force: false, url: 'u'
+        });
+        result = await CommandTester.run(runner, ['fetch', '--url', 'u',
+                '-t', '3', '--mode', 'safe', '--tags', 'a', '--tags', 'b',
+                '--force']);
+        assert.deepStrictEqual(JSON.parse(result.stdout), {
+            times: 3, t: 3, mode: 'safe', tags: ['a', 'b'], force: true,
+            url: 'u'
+        });
+    });
+
+    it("takes the values of absent options from the environment", async () => {
+        process.env.FETCH_URL = 'from env';
+        try {
+            const result = await CommandTester.run(createRunner(), ['fetch']);
+            assert.strictEqual(JSON.parse(result.stdout).url, 'from env');
+        }
+        finally {
+            delete process.env.FETCH_URL;
+        }
+    });
+
+    it("reports invalid values as usage errors", async () => {
+        const runner = createRunner();
+        const cases: Array<[string[], string]> = [
+            [['fetch'], "missing required option --url"],
+            [['fetch', '--url'], "option --url requires a value"],
+            [['fetch', '--url', 'u', '--times', 'x'],
+                "option --times must be a number"],
+            [['fetch', '--url', 'u', '--mode', 'slow'],
+                "option --mode must be one of: fast, safe"]
+        ];
+        for (const [argv, message] of cases) {
+            const result = await CommandTester.run(runner, argv);
+            assert.strictEqual(result.stderr, message +" (-h for help)\n");
+            assert.strictEqual(result.exitCode, 2);
+        }
+    });
+});
@@ -0,0 +1,51 @@
+import assert = require("assert");
+import { CommandError, OutputFormatter } from '../src/index';
+
+describe("OutputFormatter", () => {
+
+    describe("formatRecord()", () => {
+
+        it("renders a record as a JSON object", () => {
+            const formatter = new OutputFormatter('json', 80);
+            assert.strictEqual(formatter.formatRecord({ a: 1 }),
+                    '{\n  "a": 1\n}\n');
+        });
+
+        it("renders a record as a line of NDJSON", () => {
+            const formatter = new OutputFormatter('ndjson', 80);
+            assert.strictEqual(formatter.formatRecord({ a: 1, b: "x" }),
+                    '{"a":1,"b":"x"}\n');
+        });
+
+        it("renders the CSV header only once", () => {
+            const formatter = new OutputFormatter('csv', 80);
+            assert.strictEqual(formatter.formatRecord({ a: 1, b: "x,y" }),
+                    'a,b\r\n1,"x,y"\r\n');
+            assert.strictEqual(formatter.formatRecord({ b: "z", a: 2 }),
+                    '2,z\r\n');
+        });
+    });
+
+    describe("formatError()", () => {
+
+        it("renders the message id, hint, and cause", () => {
+            const formatter = new OutputFormatter('ndjson', 80);
+            const err = new CommandError({
+                id: 'error.missing-argument',
+                params: { name: 'file' }
+            }, { hint: "name a file", cause: new Error("underlying") });
+            assert.deepStrictEqual(JSON.parse(formatter.formatError(err, 1,
+                    false)), {
+                error: {
+                    name: 'CommandError',
+                    message: "missing argument <file>",
+                    messageId: 'error.missing-argument',
+                    params: { name: 'file' },
+                    hint: "name a file",
+                    cause: { name: 'Error', message: "underlying" },
+                    exitCode: 1
+                }
+            });
+        });
+    });
+});
@@ -0,0 +1,116 @@
+import FS = require("fs");
+import OS = require("os");
+import Path = require("path");
+import assert = require("assert");
+import { CommandRunner, CommandTester, PluginError } from '../src/index';
+import { TestSpec } from './support';
+
+//// SUPPORT FUNCTIONS ////////////////////////////////////////////////////////
+
+const SUPPORT_MODULE = Path.join(__dirname, 'support');
+
+// writes a plugin module whose commands are test specs of the given syntaxes
+function writePlugin(filePath: string, syntaxes: string[][]): void {
+    mkdirs(Path.dirname(filePath));
+    FS.writeFileSync(filePath,
+        "const { TestSpec } = require("+ JSON.stringify(SUPPORT_MODULE) +");\n"+
+        "exports.commands = "+ JSON.stringify(syntaxes) +".map(group =>\n"+
+        "    group.map(syntax => new TestSpec(syntax,\n"+
+        "        command => command.printLn(syntax))));\n");
+}
+
+function mkdirs(dirPath: string): void {
+    if (!FS.existsSync(dirPath)) {
+        mkdirs(Path.dirname(dirPath));
+        FS.mkdirSync(dirPath);
+    }
+}
+
+function removeTree(path: string): void {
+    if (FS.statSync(path).isDirectory()) {
+        FS.readdirSync(path).forEach(entry =>
+                removeTree(Path.join(path, entry)));
+        FS.rmdirSync(path);
+    }
+    else
+        FS.unlinkSync(path);
+}
+
+//// TESTS ////////////////////////////////////////////////////////////////////
+
+describe("PluginLoader", () => {
+
+    let rootPath: string; // temporary directory holding the plugins
+    let modulesPath: string; // node_modules directory of plugin packages
+    let pluginsPath: string; // plugins directory
+
+    beforeEach(() => {
+        rootPath = FS.mkdtempSync(Path.join(OS.tmpdir(), 'plugins-'));
+        modulesPath = Path.join(rootPath, 'node_modules');
+        pluginsPath = Path.join(rootPath, 'plugins');
+    });
+
+    afterEach(() => {
+        removeTree(rootPath);
+    });
+
+    it("discovers plugin packages and plugin directories", async () => {
+        writePlugin(Path.join(modulesPath, 'mytool-plugin-deploy/index.js'),
+                [['deploy', 'undeploy']]);
+        writePlugin(Path.join(modulesPath,
+                '@team/mytool-plugin-audit/index.js'), [['audit']]);
+        writePlugin(Path.join(modulesPath, 'unrelated/index.js'),
+                [['unrelated']]);
+        writePlugin(Path.join(pluginsPath, 'stats.js'), [['stats']]);
+        writePlugin(Path.join(pluginsPath, 'report/index.js'), [['report']]);
+
+        const runner = new CommandRunner();
+        runner.addCommands([new TestSpec("status", () => {})]);
+        const plugins = runner.loadPlugins({
+            prefix: 'mytool-plugin-',
+            searchPaths: [modulesPath],
+            directories: [pluginsPath]
+        });
+        assert.deepStrictEqual(plugins.map(plugin => plugin.name), [
+            '@team/mytool-plugin-audit', 'mytool-plugin-deploy', 'report',
+            'stats'
+        ]);
+
+        let result = await CommandTester.run(runner, ['undeploy']);
+        assert.strictEqual(result.stdout, "undeploy\n");
+        result = await CommandTester.run(runner, ['-h']);
+        assert.ok(result.stdout.indexOf("Commands of plugin "+
+                "mytool-plugin-deploy:\nDEPLOY\n  Tests deploy\n"+
+                "UNDEPLOY\n  Tests undeploy\n") >= 0, result.stdout);
+        assert.ok(result.stdout.indexOf("UNRELATED") < 0, result.stdout);
+    });
+
+    it("reports commands that conflict", () => {
+        writePlugin(Path.join(pluginsPath, 'first.js'), [['deploy']]);
+        writePlugin(Path.join(pluginsPath, 'second.js'), [['deploy']]);
+        const runner = new CommandRunner();
+        assert.throws(() => runner.loadPlugins({ directories: [pluginsPath] }),
+            (err: Error) => err instanceof PluginError && err.message ===
+                "plugin 'second' command 'deploy' conflicts with "+
+                "command 'deploy' of plugin 'first'");
+    });
+
+    it("reports commands that conflict with the tool", () => {
+        writePlugin(Path.join(pluginsPath, 'clash.js'), [['status']]);
+        const runner = new CommandRunner();
+        runner.addCommands([new TestSpec("status", () => {})]);
+        assert.throws(() => runner.loadPlugins({ directories: [pluginsPath] }),
+            (err: Error) => err instanceof PluginError && err.message ===
+                "plugin 'clash' command 'status' conflicts with "+
+                "command 'status' of the tool");
+    });
+
+    it("reports modules that do not export commands", () => {
+        mkdirs(pluginsPath);
+        FS.writeFileSync(Path.join(pluginsPath, 'empty.js'), "");
+        const runner = new CommandRunner();
+        assert.throws(() => runner.loadPlugins({ directories: [pluginsPath] }),
+            (err: Error) => err instanceof PluginError &&
+                /^plugin 'empty' does not export/.test(err.message));
+    });
+});
@@ -0,0 +1,60 @@
+import Stream = require("stream");
+import assert = require("assert");
+import { CommandRunner, Style } from '../src/index';
+import { TestSpec } from './support';
+
+describe("Style", () => {
+
+    it("styles only the lines of the help layout", () => {
+        const style = new Style(true);
+        const help = [
+            "COPY <src>",
+            "  Copies a file",
+            "NOTE this line mentions:",
+            "",
+            "Options:",
+            "  -f, --force  Overwrite",
+            "",
+            "  -x is not an option here"
+        ].join("\n");
+        const styled = style.styleHelp(help, {
+            headings: [],
+            optionHeadings: ["Options:"],
+            entries: [["COPY <src>", "COPY"]]
+        });
+        assert.strictEqual(styled, [
+            "\x1b[1mCOPY\x1b[0m <src>",
+            "  Copies a file",
+            "NOTE this line mentions:",
+            "",
+            "\x1b[1;4mOptions:\x1b[0m",
+            "  \x1b[36m-f, --force\x1b[0m  Overwrite",
+            "",
+            "  -x is not an option here"
+        ].join("\n"));
+    });
+
+    it("leaves text unstyled when disabled", () => {
+        const help = "Options:\n  -f  Force\n";
+        assert.strictEqual(new Style(false).styleHelp(help, {
+            headings: [],
+            optionHeadings: ["Options:"],
+            entries: []
+        }), help);
+    });
+
+    it("styles in auto mode only for terminals", () => {
+        const stream = new Stream.PassThrough();
+        assert.strictEqual(Style.forStream(stream).isEnabled(), false);
+        assert.strictEqual(Style.forStream(stream, 'always').isEnabled(),
+                true);
+    });
+
+    it("takes its layout from the runner's help", () => {
+        const runner = new CommandRunner();
+        runner.addCommands([new TestSpec("copy <src>", () => {})]);
+        const layout = runner.getHelpLayout(80);
+        assert.deepStrictEqual(layout.entries, [["COPY <src>", "COPY"]]);
+        assert.ok(layout.optionHeadings.indexOf("Options:") >= 0);
+    });
+});
@@ -0,0 +1,26 @@
+import Minimist = require("minimist");
+import { CommandRunner, CommandSpec, NamedCommand } from '../../src/index';
+
+// runs a callback-style command that never calls next()
+
+class NeverSpec extends CommandSpec {
+
+    constructor() {
+        super("never", "Never calls next()");
+    }
+
+    createCommand() {
+        return new NeverCmd();
+    }
+}
+
+class NeverCmd extends NamedCommand {
+
+    doCommand(args: Minimist.ParsedArgs, next: (err?: Error) => void) {
+        setTimeout(() => this.printLn("still not calling next()"), 10);
+    }
+}
+
+const runner = new CommandRunner({ debugFlag: null });
+runner.addCommands([new NeverSpec()]);
+runner.main(['never']);
@@ -0,0 +1,58 @@
+import Minimist = require("minimist");
+import { CommandSpec, NamedCommand } from '../src/index';
+
+//// TYPES ////////////////////////////////////////////////////////////////////
+
+export namespace TestSpec {
+    // performs the command, as doCommand() would
+    export type Perform = (command: TestCommand, args: Minimist.ParsedArgs)
+        => any;
+}
+
+/**
+ * TestSpec specifies a command for tests, whose command performs a function that the test provides.
+ */
+
+export class TestSpec extends CommandSpec
+{
+    protected perform: TestSpec.Perform; // performs the command
+
+    constructor(
+        syntax: string,
+        perform: TestSpec.Perform,
+        options?: CommandSpec.Options
+    ) {
+        super(syntax, "Tests "+ syntax, options);
+        this.perform = perform;
+    }
+
+    createCommand(): NamedCommand {
+        return new TestCommand(this.perform);
+    }
+}
+
+/**
+ * TestCommand performs the function that its TestSpec provides, returning whatever the function returns.
+ */
+
+export class TestCommand extends NamedCommand
+{
+    protected perform: TestSpec.Perform; // performs the command
+
+    constructor(perform: TestSpec.Perform) {
+        super();
+        this.perform = perform;
+    }
+
+    async doCommand(args: Minimist.ParsedArgs) {
+        return this.perform(this, args);
+    }
+}
+
+/**
+ * Returns a promise that resolves after the given number of milliseconds.
+ */
+
+export function delay(millis: number): Promise<void> {
+    return new Promise<void>(resolve => setTimeout(resolve, millis));
+}